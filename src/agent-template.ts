@@ -0,0 +1,112 @@
+import { AgentConfigResponse, ConversationConfig } from './types/elevenlabs';
+
+/**
+ * The ElevenLabs agent's dashboard configuration, fetched once through the
+ * agents API. Used as the base prompt for overrides and to check that every
+ * {{variable}} the agent's prompt and first message reference will be sent.
+ */
+
+export interface AgentTemplateInfo {
+  prompt: string;
+  firstMessage: string;
+  language?: string;
+  referencedVariables: string[];  // Dynamic variables the template needs from us
+}
+
+// {{name}} placeholders; system__ variables are filled in by ElevenLabs itself
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+const SYSTEM_VARIABLE_PREFIX = 'system__';
+
+/**
+ * Lists the dynamic variables referenced in template text
+ */
+export function extractTemplateVariables(...texts: Array<string | undefined>): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!match[1].startsWith(SYSTEM_VARIABLE_PREFIX)) {
+        names.add(match[1]);
+      }
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Fills {{variable}} placeholders in our own templates (e.g. the voicemail),
+ * leaving unknown ones empty
+ */
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text
+    .replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Lists the variables a conversation will need, taking any override of the
+ * prompt or first message into account
+ */
+export function referencedVariablesFor(template: AgentTemplateInfo, override: ConversationConfig | null): string[] {
+  return extractTemplateVariables(
+    override?.agent?.prompt?.prompt ?? template.prompt,
+    override?.agent?.first_message ?? template.firstMessage
+  );
+}
+
+export class AgentTemplate {
+  private static instance: AgentTemplate;
+  private template: Promise<AgentTemplateInfo | null> | null = null;
+
+  static getInstance(): AgentTemplate {
+    if (!AgentTemplate.instance) {
+      AgentTemplate.instance = new AgentTemplate();
+    }
+    return AgentTemplate.instance;
+  }
+
+  get(): Promise<AgentTemplateInfo | null> {
+    if (!this.template) {
+      this.template = this.fetchTemplate();
+      // Don't cache failures, so the next call can try again
+      this.template.then(template => {
+        if (!template) this.template = null;
+      });
+    }
+    return this.template;
+  }
+
+  private async fetchTemplate(): Promise<AgentTemplateInfo | null> {
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+    const agentId = process.env.ELEVENLABS_AGENT_ID;
+
+    if (!apiKey || !agentId) return null;
+
+    try {
+      const response = await fetch(`https://api.elevenlabs.io/v1/convai/agents/${agentId}`, {
+        headers: { 'xi-api-key': apiKey }
+      });
+
+      if (!response.ok) {
+        console.error(`❌ Agent config request failed: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      const agent = await response.json() as AgentConfigResponse;
+      const config = agent.conversation_config?.agent || {};
+      const prompt = config.prompt?.prompt ?? '';
+      const firstMessage = config.first_message ?? '';
+
+      return {
+        prompt,
+        firstMessage,
+        language: config.language,
+        referencedVariables: extractTemplateVariables(prompt, firstMessage)
+      };
+    } catch (error) {
+      console.error('❌ Error fetching agent config:', error);
+      return null;
+    }
+  }
+}
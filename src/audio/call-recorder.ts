@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Records a call to a stereo 16-bit 8kHz WAV file: caller on the left channel,
+ * agent on the right.
+ *
+ * Both legs are placed on a shared timeline measured from the start of the
+ * call. Each channel continues from where its last chunk ended; a gap of more
+ * than one frame between the wall clock and that position is filled with
+ * silence, so pauses line up across channels. Samples are written out once
+ * they are older than the flush delay and can no longer change.
+ */
+
+export type RecordingChannel = 'caller' | 'agent';
+
+const SAMPLE_RATE = 8000;
+const CHANNELS = 2;
+const BYTES_PER_SAMPLE = 2;
+const HEADER_BYTES = 44;
+const FRAME_SAMPLES = 160;
+// Agent audio is sent slightly ahead of playback, so keep a second of timeline in memory
+const FLUSH_DELAY_SAMPLES = SAMPLE_RATE;
+
+export const RECORDINGS_DIR = process.env.CALL_RECORDINGS_DIR || path.join(process.cwd(), 'recordings');
+
+export class CallRecorder {
+  readonly filePath: string;
+  private stream: fs.WriteStream;
+  private channels: Record<RecordingChannel, Int16Array> = {
+    caller: new Int16Array(SAMPLE_RATE * 4),
+    agent: new Int16Array(SAMPLE_RATE * 4)
+  };
+  private cursors: Record<RecordingChannel, number> = { caller: 0, agent: 0 };
+  private flushedSamples: number = 0;  // Timeline position already written to disk
+  private dataBytes: number = 0;
+  private isClosed: boolean = false;
+
+  constructor(callSid: string, private readonly startedAt: number = Date.now()) {
+    fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+    this.filePath = path.join(RECORDINGS_DIR, `${callSid}.wav`);
+    this.stream = fs.createWriteStream(this.filePath);
+    this.stream.on('error', error => {
+      console.error(`❌ Error writing recording ${this.filePath}:`, error);
+    });
+    // Sizes are patched in on close
+    this.stream.write(CallRecorder.buildHeader(0));
+  }
+
+  /**
+   * Adds 8kHz PCM for one leg of the call, placed at the current time
+   */
+  write(channel: RecordingChannel, samples: Int16Array): void {
+    if (this.isClosed || samples.length === 0) return;
+
+    const now = this.clockSamples();
+    let start = this.cursors[channel];
+    if (now - start > FRAME_SAMPLES) {
+      start = now;
+    }
+    // Anything that would land before the flushed region is too late to record
+    start = Math.max(start, this.flushedSamples);
+
+    const offset = start - this.flushedSamples;
+    this.ensureCapacity(offset + samples.length);
+    this.channels[channel].set(samples, offset);
+    this.cursors[channel] = start + samples.length;
+
+    this.flush(now - FLUSH_DELAY_SAMPLES);
+  }
+
+  /**
+   * Discards agent audio queued beyond the current time, e.g. after Twilio's buffer is cleared
+   */
+  truncate(channel: RecordingChannel): void {
+    const now = Math.max(this.clockSamples(), this.flushedSamples);
+    if (this.cursors[channel] <= now) return;
+
+    this.channels[channel].fill(0, now - this.flushedSamples, this.cursors[channel] - this.flushedSamples);
+    this.cursors[channel] = now;
+  }
+
+  /**
+   * Writes everything still buffered, finalises the header and resolves with the file path
+   */
+  async close(): Promise<string> {
+    if (this.isClosed) return this.filePath;
+    this.isClosed = true;
+
+    this.flush(Math.max(this.cursors.caller, this.cursors.agent));
+    await new Promise<void>((resolve, reject) => {
+      this.stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+
+    const handle = await fs.promises.open(this.filePath, 'r+');
+    try {
+      await handle.write(CallRecorder.buildHeader(this.dataBytes), 0, HEADER_BYTES, 0);
+    } finally {
+      await handle.close();
+    }
+
+    return this.filePath;
+  }
+
+  get durationMs(): number {
+    return Math.round(((this.dataBytes / (CHANNELS * BYTES_PER_SAMPLE)) / SAMPLE_RATE) * 1000);
+  }
+
+  private clockSamples(): number {
+    return Math.floor(((Date.now() - this.startedAt) * SAMPLE_RATE) / 1000);
+  }
+
+  private flush(upTo: number): void {
+    const count = Math.floor(upTo - this.flushedSamples);
+    if (count <= 0) return;
+
+    const caller = this.channels.caller;
+    const agent = this.channels.agent;
+    const available = Math.min(count, caller.length);
+    const interleaved = Buffer.alloc(available * CHANNELS * BYTES_PER_SAMPLE);
+
+    for (let i = 0; i < available; i++) {
+      interleaved.writeInt16LE(caller[i], i * 4);
+      interleaved.writeInt16LE(agent[i], i * 4 + 2);
+    }
+
+    this.stream.write(interleaved);
+    this.dataBytes += interleaved.length;
+
+    // Shift the unflushed tail to the front and clear what it leaves behind
+    for (const channel of [caller, agent]) {
+      channel.copyWithin(0, available);
+      channel.fill(0, channel.length - available);
+    }
+    this.flushedSamples += available;
+  }
+
+  private ensureCapacity(samples: number): void {
+    if (samples <= this.channels.caller.length) return;
+
+    const size = Math.max(samples, this.channels.caller.length * 2);
+    for (const name of ['caller', 'agent'] as RecordingChannel[]) {
+      const grown = new Int16Array(size);
+      grown.set(this.channels[name]);
+      this.channels[name] = grown;
+    }
+  }
+
+  private static buildHeader(dataBytes: number): Buffer {
+    const header = Buffer.alloc(HEADER_BYTES);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + dataBytes, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);                                         // PCM chunk size
+    header.writeUInt16LE(1, 20);                                          // PCM format
+    header.writeUInt16LE(CHANNELS, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(SAMPLE_RATE * CHANNELS * BYTES_PER_SAMPLE, 28);  // Byte rate
+    header.writeUInt16LE(CHANNELS * BYTES_PER_SAMPLE, 32);                // Block align
+    header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(dataBytes, 40);
+    return header;
+  }
+}
@@ -0,0 +1,162 @@
+import { decodeMulaw } from './g711';
+
+/**
+ * Distinguishes a caller barging in from line echo of the agent's own voice.
+ *
+ * Keeps a 20ms-frame energy timeline of the agent audio sent to Twilio and of
+ * the caller audio received. While the agent is playing, a candidate barge-in
+ * must clear a raised energy threshold and its recent energy envelope must not
+ * track the agent's envelope at any plausible echo delay.
+ */
+
+export interface BargeInDecision {
+  interrupt: boolean;
+  reason: 'agent_silent' | 'speech' | 'below_playback_threshold' | 'echo';
+  callerDb: number;
+  requiredDb?: number;
+  correlation?: number;
+  lagMs?: number;
+}
+
+const FRAME_MS = 20;
+const FRAME_SAMPLES = 160;
+const TIMELINE_FRAMES = 512;  // ~10 seconds of agent audio
+const ENVELOPE_FRAMES = 12;   // Caller frames compared against the agent envelope
+const MAX_ECHO_LAG_FRAMES = 25;  // Echo paths up to 500ms
+const SILENCE_DB = -90;
+
+const PLAYBACK_EXTRA_DB = parseFloat(process.env.BARGE_IN_EXTRA_DB || '6');
+const ECHO_CORRELATION = parseFloat(process.env.BARGE_IN_ECHO_CORRELATION || '0.75');
+// Echo returns attenuated; a caller as loud as the agent is talking, not echoing
+const MIN_ECHO_ATTENUATION_DB = 3;
+
+function frameEnergyDb(samples: Int16Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  const rms = Math.sqrt(sum / Math.max(1, end - start)) / 32768;
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+export class EchoGuard {
+  private agentEnergy = new Float32Array(TIMELINE_FRAMES).fill(SILENCE_DB);
+  private agentSlots = new Int32Array(TIMELINE_FRAMES).fill(-1);
+  private agentScheduledEndMs: number = 0;
+  private callerEnergy: number[] = [];
+  private callerSlots: number[] = [];
+  private readonly origin: number = Date.now();
+
+  /**
+   * Adds agent μ-law audio to the timeline at the time it will be played
+   */
+  recordAgentAudio(mulaw: Buffer): void {
+    const now = Date.now() - this.origin;
+    let startMs = Math.max(now, this.agentScheduledEndMs);
+    const samples = decodeMulaw(mulaw);
+
+    for (let offset = 0; offset < samples.length; offset += FRAME_SAMPLES) {
+      const slot = Math.floor(startMs / FRAME_MS);
+      const index = slot % TIMELINE_FRAMES;
+      this.agentSlots[index] = slot;
+      this.agentEnergy[index] = frameEnergyDb(samples, offset, Math.min(samples.length, offset + FRAME_SAMPLES));
+      startMs += FRAME_MS;
+    }
+
+    this.agentScheduledEndMs = startMs;
+  }
+
+  /**
+   * Drops agent audio that will no longer play (after Twilio's buffer is cleared)
+   */
+  clearAgentAudio(): void {
+    this.agentScheduledEndMs = Date.now() - this.origin;
+  }
+
+  /**
+   * Records a caller frame; call for every frame so the envelope stays contiguous
+   */
+  recordCallerFrame(samples: Int16Array): number {
+    const energy = frameEnergyDb(samples, 0, samples.length);
+    this.callerEnergy.push(energy);
+    this.callerSlots.push(Math.floor((Date.now() - this.origin) / FRAME_MS));
+
+    if (this.callerEnergy.length > ENVELOPE_FRAMES) {
+      this.callerEnergy.shift();
+      this.callerSlots.shift();
+    }
+    return energy;
+  }
+
+  /**
+   * Decides whether speech the VAD reported should interrupt the agent
+   */
+  evaluate(agentPlaying: boolean, speechThresholdDb: number): BargeInDecision {
+    const callerDb = this.callerEnergy[this.callerEnergy.length - 1] ?? SILENCE_DB;
+
+    if (!agentPlaying) {
+      return { interrupt: true, reason: 'agent_silent', callerDb };
+    }
+
+    const requiredDb = speechThresholdDb + PLAYBACK_EXTRA_DB;
+    if (callerDb < requiredDb) {
+      return { interrupt: false, reason: 'below_playback_threshold', callerDb, requiredDb };
+    }
+
+    const { correlation, lag } = this.bestEchoCorrelation();
+    const agentDbAtLag = this.agentEnergyAt(this.callerSlots[this.callerSlots.length - 1] - lag);
+    const isEcho = correlation >= ECHO_CORRELATION && callerDb <= agentDbAtLag - MIN_ECHO_ATTENUATION_DB;
+
+    return {
+      interrupt: !isEcho,
+      reason: isEcho ? 'echo' : 'speech',
+      callerDb,
+      requiredDb,
+      correlation,
+      lagMs: lag * FRAME_MS
+    };
+  }
+
+  private agentEnergyAt(slot: number): number {
+    const index = ((slot % TIMELINE_FRAMES) + TIMELINE_FRAMES) % TIMELINE_FRAMES;
+    return this.agentSlots[index] === slot ? this.agentEnergy[index] : SILENCE_DB;
+  }
+
+  /**
+   * Pearson correlation between the caller's energy envelope and the agent's,
+   * maximised over echo delays
+   */
+  private bestEchoCorrelation(): { correlation: number; lag: number } {
+    const n = this.callerEnergy.length;
+    let best = { correlation: 0, lag: 0 };
+    if (n < 4) return best;
+
+    const callerMean = this.callerEnergy.reduce((sum, value) => sum + value, 0) / n;
+
+    for (let lag = 0; lag <= MAX_ECHO_LAG_FRAMES; lag++) {
+      const agent = this.callerSlots.map(slot => this.agentEnergyAt(slot - lag));
+      const agentMean = agent.reduce((sum, value) => sum + value, 0) / n;
+
+      let covariance = 0;
+      let callerVariance = 0;
+      let agentVariance = 0;
+      for (let i = 0; i < n; i++) {
+        const c = this.callerEnergy[i] - callerMean;
+        const a = agent[i] - agentMean;
+        covariance += c * a;
+        callerVariance += c * c;
+        agentVariance += a * a;
+      }
+
+      // A flat envelope on either side says nothing about echo
+      if (callerVariance < 1 || agentVariance < 1) continue;
+
+      const correlation = covariance / Math.sqrt(callerVariance * agentVariance);
+      if (correlation > best.correlation) {
+        best = { correlation, lag };
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,129 @@
+import { decodeAlaw, encodeAlaw, encodeMulaw } from './g711';
+import { Resampler, SUPPORTED_SAMPLE_RATES } from './resampler';
+import { fromInt16Samples, toInt16Samples } from './pcm';
+
+export type AudioEncoding = 'pcm' | 'ulaw' | 'alaw';
+
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRate: number;
+}
+
+// Twilio media streams are always μ-law 8kHz in both directions
+export const TWILIO_AUDIO_FORMAT: AudioFormat = { encoding: 'ulaw', sampleRate: 8000 };
+
+/**
+ * Parses an ElevenLabs audio format name such as "pcm_16000" or "ulaw_8000"
+ */
+export function parseAudioFormat(name: string): AudioFormat {
+  const match = /^(pcm|ulaw|alaw)_(\d+)$/.exec(name);
+  if (!match) {
+    throw new Error(`Unrecognised audio format: ${name}`);
+  }
+
+  const format: AudioFormat = { encoding: match[1] as AudioEncoding, sampleRate: parseInt(match[2]) };
+
+  if (format.encoding !== 'pcm' && format.sampleRate !== 8000) {
+    throw new Error(`Unsupported audio format: ${name} (G.711 is 8kHz only)`);
+  }
+  if (!SUPPORTED_SAMPLE_RATES.includes(format.sampleRate)) {
+    throw new Error(`Unsupported audio format: ${name} (sample rate not supported)`);
+  }
+
+  return format;
+}
+
+export function formatName(format: AudioFormat): string {
+  return `${format.encoding}_${format.sampleRate}`;
+}
+
+/**
+ * Converts caller audio (decoded Twilio μ-law) into the format ElevenLabs expects
+ */
+export class InboundAudioConverter {
+  private resampler: Resampler | null;
+
+  constructor(readonly format: AudioFormat) {
+    this.resampler = format.encoding === 'pcm' && format.sampleRate !== 8000
+      ? new Resampler(8000, format.sampleRate)
+      : null;
+  }
+
+  /**
+   * Takes the raw μ-law frame alongside its (possibly gain-adjusted) PCM so the
+   * μ-law path can pass the original bytes straight through
+   */
+  convert(mulawFrame: Buffer, pcm8k: Int16Array): Buffer {
+    switch (this.format.encoding) {
+      case 'ulaw':
+        return mulawFrame;
+      case 'alaw':
+        return Buffer.from(encodeAlaw(pcm8k));
+      case 'pcm':
+        return fromInt16Samples(this.resampler ? this.resampler.process(pcm8k) : pcm8k);
+    }
+  }
+}
+
+/**
+ * Converts agent audio from the format ElevenLabs sends into Twilio μ-law 8kHz
+ */
+export class OutboundAudioConverter {
+  private resampler: Resampler | null;
+  private carry: Buffer | null = null;
+
+  constructor(readonly format: AudioFormat, private readonly gain: number = 1) {
+    this.resampler = format.encoding === 'pcm' && format.sampleRate !== 8000
+      ? new Resampler(format.sampleRate, 8000)
+      : null;
+  }
+
+  get isPassthrough(): boolean {
+    return this.format.encoding === 'ulaw';
+  }
+
+  convert(chunk: Buffer): Buffer {
+    switch (this.format.encoding) {
+      case 'ulaw':
+        return chunk;
+      case 'alaw':
+        return Buffer.from(encodeMulaw(decodeAlaw(chunk)));
+      case 'pcm':
+        return this.convertPcm(chunk);
+    }
+  }
+
+  /**
+   * Drops any partial state, e.g. after an interruption discards queued audio
+   */
+  reset(): void {
+    this.carry = null;
+    if (this.resampler) {
+      this.resampler = new Resampler(this.format.sampleRate, 8000);
+    }
+  }
+
+  private convertPcm(chunk: Buffer): Buffer {
+    // 16-bit samples can straddle chunk boundaries; hold back an odd trailing byte
+    if (this.carry) {
+      chunk = Buffer.concat([this.carry, chunk]);
+      this.carry = null;
+    }
+    if (chunk.length % 2 !== 0) {
+      this.carry = chunk.subarray(chunk.length - 1);
+      chunk = chunk.subarray(0, chunk.length - 1);
+    }
+
+    let samples = toInt16Samples(chunk);
+    if (this.gain !== 1) {
+      const scaled = new Int16Array(samples.length);
+      for (let i = 0; i < samples.length; i++) {
+        scaled[i] = Math.floor(samples[i] * this.gain);
+      }
+      samples = scaled;
+    }
+
+    const pcm8k = this.resampler ? this.resampler.process(samples) : samples;
+    return Buffer.from(encodeMulaw(pcm8k));
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * G.711 μ-law and A-law codecs backed by lookup tables.
+ *
+ * Decode tables map every 8-bit code to its 16-bit linear value; encode tables
+ * map every 16-bit sample (offset by 32768) to its 8-bit code. The tables are
+ * built once at module load from the reference bitwise algorithms below.
+ */
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+function encodeMulawSample(sample: number): number {
+  const sign = (sample >> 8) & 0x80;
+  if (sign !== 0) sample = -sample;
+  if (sample > MULAW_CLIP) sample = MULAW_CLIP;
+
+  sample += MULAW_BIAS;
+  let exponent = 7;
+  for (let expMask = 0x4000; (sample & expMask) === 0 && exponent > 0; exponent--, expMask >>= 1) {}
+
+  const mantissa = (sample >> (exponent + 3)) & 0x0F;
+  return ~(sign | (exponent << 4) | mantissa) & 0xFF;
+}
+
+function decodeMulawSample(code: number): number {
+  code = ~code & 0xFF;
+  const sign = code & 0x80;
+  const exponent = (code >> 4) & 0x07;
+  const mantissa = code & 0x0F;
+
+  const sample = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return sign !== 0 ? -sample : sample;
+}
+
+// Segment end points for 13-bit A-law magnitudes
+const ALAW_SEGMENT_END = [0x1F, 0x3F, 0x7F, 0xFF, 0x1FF, 0x3FF, 0x7FF, 0xFFF];
+
+function encodeAlawSample(sample: number): number {
+  let pcm = sample >> 3;
+  let mask: number;
+
+  if (pcm >= 0) {
+    mask = 0xD5;
+  } else {
+    mask = 0x55;
+    pcm = -pcm - 1;
+  }
+
+  let segment = 0;
+  while (segment < 8 && pcm > ALAW_SEGMENT_END[segment]) segment++;
+  if (segment >= 8) return 0x7F ^ mask;
+
+  const mantissa = segment < 2 ? (pcm >> 1) & 0x0F : (pcm >> segment) & 0x0F;
+  return ((segment << 4) | mantissa) ^ mask;
+}
+
+function decodeAlawSample(code: number): number {
+  code ^= 0x55;
+  let sample = (code & 0x0F) << 4;
+  const segment = (code & 0x70) >> 4;
+
+  if (segment === 0) {
+    sample += 8;
+  } else {
+    sample += 0x108;
+    if (segment > 1) sample <<= segment - 1;
+  }
+
+  return (code & 0x80) !== 0 ? sample : -sample;
+}
+
+const MULAW_DECODE_TABLE = new Int16Array(256);
+const ALAW_DECODE_TABLE = new Int16Array(256);
+const MULAW_ENCODE_TABLE = new Uint8Array(65536);
+const ALAW_ENCODE_TABLE = new Uint8Array(65536);
+
+for (let code = 0; code < 256; code++) {
+  MULAW_DECODE_TABLE[code] = decodeMulawSample(code);
+  ALAW_DECODE_TABLE[code] = decodeAlawSample(code);
+}
+
+for (let sample = -32768; sample < 32768; sample++) {
+  MULAW_ENCODE_TABLE[sample + 32768] = encodeMulawSample(sample);
+  ALAW_ENCODE_TABLE[sample + 32768] = encodeAlawSample(sample);
+}
+
+/**
+ * Decodes μ-law bytes to 16-bit PCM, writing into `out` when it is large enough
+ */
+export function decodeMulaw(input: Uint8Array, out?: Int16Array): Int16Array {
+  const samples = out && out.length >= input.length ? out.subarray(0, input.length) : new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    samples[i] = MULAW_DECODE_TABLE[input[i]];
+  }
+  return samples;
+}
+
+/**
+ * Encodes 16-bit PCM to μ-law bytes, writing into `out` when it is large enough
+ */
+export function encodeMulaw(samples: Int16Array, out?: Uint8Array): Uint8Array {
+  const codes = out && out.length >= samples.length ? out.subarray(0, samples.length) : new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    codes[i] = MULAW_ENCODE_TABLE[samples[i] + 32768];
+  }
+  return codes;
+}
+
+/**
+ * Decodes A-law bytes to 16-bit PCM, writing into `out` when it is large enough
+ */
+export function decodeAlaw(input: Uint8Array, out?: Int16Array): Int16Array {
+  const samples = out && out.length >= input.length ? out.subarray(0, input.length) : new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    samples[i] = ALAW_DECODE_TABLE[input[i]];
+  }
+  return samples;
+}
+
+/**
+ * Encodes 16-bit PCM to A-law bytes, writing into `out` when it is large enough
+ */
+export function encodeAlaw(samples: Int16Array, out?: Uint8Array): Uint8Array {
+  const codes = out && out.length >= samples.length ? out.subarray(0, samples.length) : new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    codes[i] = ALAW_ENCODE_TABLE[samples[i] + 32768];
+  }
+  return codes;
+}
@@ -0,0 +1,182 @@
+import { PlaybackTracker } from './playback-tracker';
+
+/**
+ * Paces agent audio to Twilio in real time.
+ *
+ * ElevenLabs streams audio faster than real time. Forwarding it as it arrives
+ * lets Twilio buffer seconds ahead, so a clear throws away audio we can't
+ * account for. The scheduler re-frames μ-law into 20ms frames and only keeps
+ * a small lead over the caller's playhead, so what has been heard is always
+ * known to within that lead. A mark closes each utterance (when the audio runs
+ * dry) and Twilio echoes it back once the utterance has finished playing.
+ */
+
+export interface OutboundTransport {
+  sendMedia(frame: Buffer): void;
+  sendMark(name: string): void;
+}
+
+export interface PlaybackPosition {
+  playedMs: number;  // Audio of the current utterance the caller has heard
+  sentMs: number;    // Audio of the current utterance sent to Twilio
+}
+
+const FRAME_BYTES = 160;  // 20ms of μ-law 8kHz
+const FRAME_MS = 20;
+const MULAW_SILENCE = 0xff;
+// Audio kept buffered at Twilio ahead of the playhead to absorb network jitter
+const DEFAULT_LEAD_MS = parseInt(process.env.OUTBOUND_AUDIO_LEAD_MS || '100');
+
+export class OutboundAudioScheduler {
+  private frames: Buffer[] = [];
+  private partial: Buffer | null = null;
+  private playheadAt: number = 0;  // Wall-clock time the next frame sent will start playing
+  private utteranceSentMs: number = 0;
+  private isUtteranceOpen: boolean = false;
+  private timer?: NodeJS.Timeout;
+  private readonly playback: PlaybackTracker = new PlaybackTracker();
+
+  constructor(private readonly transport: OutboundTransport, private readonly leadMs: number = DEFAULT_LEAD_MS) {}
+
+  /**
+   * Queues μ-law 8kHz agent audio of any length
+   */
+  enqueue(mulaw: Buffer): void {
+    if (mulaw.length === 0) return;
+
+    const data = this.partial ? Buffer.concat([this.partial, mulaw]) : mulaw;
+    this.partial = null;
+
+    let offset = 0;
+    for (; offset + FRAME_BYTES <= data.length; offset += FRAME_BYTES) {
+      this.frames.push(data.subarray(offset, offset + FRAME_BYTES));
+    }
+    if (offset < data.length) {
+      this.partial = data.subarray(offset);
+    }
+
+    if (!this.timer) {
+      this.tick();
+    }
+  }
+
+  /**
+   * Drops everything not yet sent and returns how much of the current utterance
+   * the caller heard. Call alongside Twilio's clear, which drops the rest.
+   */
+  clear(): PlaybackPosition {
+    const position = this.utterancePosition;
+
+    this.frames = [];
+    this.partial = null;
+    this.isUtteranceOpen = false;
+    this.utteranceSentMs = 0;
+    this.playheadAt = Date.now();
+    this.playback.clear();
+    this.stopTimer();
+
+    return position;
+  }
+
+  /**
+   * Handles a mark echoed back by Twilio; returns false for marks we didn't send.
+   * Once the last utterance has finished playing there is no current utterance.
+   */
+  onMark(name: string): boolean {
+    const isOurs = this.playback.onMark(name);
+    if (isOurs && !this.isActive && !this.playback.isPlaying) {
+      this.utteranceSentMs = 0;
+    }
+    return isOurs;
+  }
+
+  /**
+   * True while agent audio is queued or playing, or within `tailMs` of it stopping
+   */
+  isPlayingWithin(tailMs: number): boolean {
+    return this.isActive || this.playback.isPlayingWithin(tailMs);
+  }
+
+  get isActive(): boolean {
+    return this.isUtteranceOpen || this.frames.length > 0 || this.partial !== null;
+  }
+
+  /** Position within the utterance currently being played */
+  get utterancePosition(): PlaybackPosition {
+    const bufferedMs = Math.max(0, this.playheadAt - Date.now());
+    return {
+      playedMs: Math.max(0, this.utteranceSentMs - bufferedMs),
+      sentMs: this.utteranceSentMs
+    };
+  }
+
+  /** Total agent audio Twilio has confirmed playing, in milliseconds */
+  get playedPositionMs(): number {
+    return this.playback.playedPositionMs;
+  }
+
+  /**
+   * Stops pacing without sending anything more, e.g. when the call ends
+   */
+  stop(): void {
+    this.frames = [];
+    this.partial = null;
+    this.stopTimer();
+  }
+
+  private tick(): void {
+    this.timer = undefined;
+    const now = Date.now();
+
+    // After an underrun (or when starting from idle) Twilio plays immediately
+    if (this.playheadAt < now) {
+      this.playheadAt = now;
+    }
+
+    while (this.frames.length > 0 && this.playheadAt - now < this.leadMs) {
+      this.sendFrame(this.frames.shift()!);
+    }
+
+    if (this.frames.length === 0 && this.playheadAt - now < FRAME_MS) {
+      // Nothing more arrived before the buffered audio ran out: the utterance is over
+      if (this.partial) {
+        const padded = Buffer.alloc(FRAME_BYTES, MULAW_SILENCE);
+        this.partial.copy(padded);
+        this.partial = null;
+        this.sendFrame(padded);
+      }
+      if (this.isUtteranceOpen) {
+        this.endUtterance();
+      }
+    }
+
+    if (!this.isActive) return;
+
+    // Wake when the next frame is due, or to check whether the utterance has ended
+    const wakeAt = this.frames.length > 0 ? this.playheadAt - this.leadMs : this.playheadAt - FRAME_MS;
+    this.timer = setTimeout(() => this.tick(), Math.max(1, wakeAt - Date.now()));
+  }
+
+  private sendFrame(frame: Buffer): void {
+    if (!this.isUtteranceOpen) {
+      this.isUtteranceOpen = true;
+      this.utteranceSentMs = 0;
+    }
+
+    this.transport.sendMedia(frame);
+    this.playheadAt += FRAME_MS;
+    this.utteranceSentMs += FRAME_MS;
+  }
+
+  private endUtterance(): void {
+    this.isUtteranceOpen = false;
+    this.transport.sendMark(this.playback.createMark(this.utteranceSentMs));
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Views a little-endian 16-bit PCM buffer as samples, copying only when the
+ * buffer is not 2-byte aligned (Int16Array views require aligned offsets)
+ */
+export function toInt16Samples(buffer: Buffer): Int16Array {
+  const length = Math.floor(buffer.length / 2);
+
+  if (buffer.byteOffset % 2 === 0) {
+    return new Int16Array(buffer.buffer, buffer.byteOffset, length);
+  }
+
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = buffer.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+/**
+ * Wraps samples as a Buffer without copying
+ */
+export function fromInt16Samples(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
@@ -0,0 +1,71 @@
+/**
+ * Tracks which agent audio Twilio has actually played, using media stream
+ * `mark` messages. A mark is queued behind each chunk of agent audio; Twilio
+ * echoes it back once playback reaches that point (or immediately when the
+ * buffer is cleared), so outstanding marks mean audio is still playing.
+ */
+export class PlaybackTracker {
+  private pendingMarks: Map<string, number> = new Map();  // mark name → audio position (ms) at that mark
+  private sequence: number = 0;
+  private sentMs: number = 0;
+  private playedMs: number = 0;
+  private lastPlaybackEndAt: number = 0;
+
+  /**
+   * Registers a mark covering all audio sent so far and returns its name
+   */
+  createMark(sentAudioMs: number): string {
+    this.sentMs += sentAudioMs;
+    const name = `agent-${++this.sequence}`;
+    this.pendingMarks.set(name, this.sentMs);
+    return name;
+  }
+
+  /**
+   * Handles a mark echoed back by Twilio; returns false for marks we didn't send
+   */
+  onMark(name: string): boolean {
+    const position = this.pendingMarks.get(name);
+    if (position === undefined) return false;
+
+    this.pendingMarks.delete(name);
+    this.playedMs = Math.max(this.playedMs, position);
+
+    if (this.pendingMarks.size === 0) {
+      this.lastPlaybackEndAt = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * Forgets pending marks after Twilio's buffer has been cleared
+   */
+  clear(): void {
+    if (this.pendingMarks.size > 0) {
+      this.lastPlaybackEndAt = Date.now();
+    }
+    this.pendingMarks.clear();
+    this.sentMs = this.playedMs;
+  }
+
+  get isPlaying(): boolean {
+    return this.pendingMarks.size > 0;
+  }
+
+  /**
+   * True while audio is playing or within `tailMs` of it stopping (line echo lingers)
+   */
+  isPlayingWithin(tailMs: number): boolean {
+    return this.isPlaying || Date.now() - this.lastPlaybackEndAt < tailMs;
+  }
+
+  /** Total agent audio confirmed played, in milliseconds */
+  get playedPositionMs(): number {
+    return this.playedMs;
+  }
+
+  /** Total agent audio sent to Twilio, in milliseconds */
+  get sentPositionMs(): number {
+    return this.sentMs;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Bounded ring buffer for caller audio that arrives before the ElevenLabs
+ * conversation is ready. Frames are raw Twilio μ-law (8kHz, one byte per
+ * sample); once the buffer holds more than maxDurationMs the oldest frames
+ * are discarded so only the most recent speech is replayed.
+ */
+export class PreConnectBuffer {
+  private frames: Buffer[] = [];
+  private bufferedBytes: number = 0;
+  private readonly maxBytes: number;
+  private discardedBytes: number = 0;
+  private replayedBytes: number = 0;
+
+  constructor(readonly maxDurationMs: number = parseInt(process.env.PRECONNECT_AUDIO_BUFFER_MS || '3000')) {
+    this.maxBytes = Math.round(maxDurationMs * 8);
+  }
+
+  push(frame: Buffer): void {
+    this.frames.push(frame);
+    this.bufferedBytes += frame.length;
+
+    while (this.bufferedBytes > this.maxBytes && this.frames.length > 0) {
+      const dropped = this.frames.shift()!;
+      this.bufferedBytes -= dropped.length;
+      this.discardedBytes += dropped.length;
+    }
+  }
+
+  /**
+   * Removes and returns every buffered frame, oldest first
+   */
+  drain(): Buffer[] {
+    const frames = this.frames;
+    this.replayedBytes += this.bufferedBytes;
+    this.frames = [];
+    this.bufferedBytes = 0;
+    return frames;
+  }
+
+  get bufferedMs(): number {
+    return this.bufferedBytes / 8;
+  }
+
+  get replayedMs(): number {
+    return this.replayedBytes / 8;
+  }
+
+  get discardedMs(): number {
+    return this.discardedBytes / 8;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Streaming band-limited resampler for 16-bit PCM between the rates used on a
+ * call (8kHz telephony, 16/22.05/24kHz ElevenLabs audio).
+ *
+ * Uses windowed-sinc interpolation with a precomputed polyphase table. The
+ * low-pass cutoff sits just below the lower of the two Nyquist frequencies,
+ * so downsampling doesn't alias and upsampling doesn't image. State carries
+ * over between calls to process(), so consecutive frames join seamlessly.
+ */
+
+export const SUPPORTED_SAMPLE_RATES = [8000, 16000, 22050, 24000];
+
+// Zero crossings of the sinc kept on each side of the centre tap
+const ZERO_CROSSINGS = 8;
+// Fractional positions the polyphase table is quantised to
+const PHASES = 256;
+// Cutoff relative to the lower Nyquist frequency, leaving room for the transition band
+const ROLLOFF = 0.92;
+
+export class Resampler {
+  private readonly step: number;
+  private readonly halfWidth: number;
+  private readonly taps: number;
+  private readonly table: Float32Array;
+  private history: Float32Array;
+  private historyLength: number;
+  private position: number;
+  private output: Int16Array = new Int16Array(0);
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    if (!SUPPORTED_SAMPLE_RATES.includes(fromRate) || !SUPPORTED_SAMPLE_RATES.includes(toRate)) {
+      throw new Error(`Unsupported resampling ${fromRate}Hz → ${toRate}Hz`);
+    }
+
+    this.step = fromRate / toRate;
+    const cutoff = Math.min(1, toRate / fromRate) * ROLLOFF;
+    this.halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+    this.taps = this.halfWidth * 2;
+    this.table = Resampler.buildTable(cutoff, this.halfWidth);
+
+    // Start with half a kernel of silence so the first output lines up with the first input sample
+    this.history = new Float32Array(this.taps + 4096);
+    this.historyLength = this.halfWidth;
+    this.position = this.halfWidth;
+  }
+
+  get isPassthrough(): boolean {
+    return this.fromRate === this.toRate;
+  }
+
+  /**
+   * Resamples a block of samples. The returned array is a view into an
+   * internal buffer and is only valid until the next call.
+   */
+  process(input: Int16Array): Int16Array {
+    if (this.isPassthrough) return input;
+
+    this.append(input);
+
+    const maxOutput = Math.ceil((this.historyLength - this.position) / this.step) + 1;
+    if (this.output.length < maxOutput) {
+      this.output = new Int16Array(maxOutput * 2);
+    }
+
+    let count = 0;
+    // Each output needs halfWidth samples of look-ahead
+    while (Math.floor(this.position) + this.halfWidth + 1 < this.historyLength) {
+      this.output[count++] = this.interpolate(this.position);
+      this.position += this.step;
+    }
+
+    this.discardConsumed();
+    return this.output.subarray(0, count);
+  }
+
+  /**
+   * Drains the samples still held back for look-ahead, e.g. at the end of a clip
+   */
+  flush(): Int16Array {
+    return this.process(new Int16Array(this.halfWidth));
+  }
+
+  private interpolate(position: number): number {
+    let base = Math.floor(position);
+    let phase = Math.round((position - base) * PHASES);
+    if (phase === PHASES) {
+      base++;
+      phase = 0;
+    }
+
+    const row = phase * this.taps;
+    const start = base - this.halfWidth + 1;
+    let sum = 0;
+    for (let j = 0; j < this.taps; j++) {
+      sum += this.history[start + j] * this.table[row + j];
+    }
+
+    return sum > 32767 ? 32767 : sum < -32768 ? -32768 : Math.round(sum);
+  }
+
+  private append(input: Int16Array): void {
+    const required = this.historyLength + input.length;
+    if (this.history.length < required) {
+      const grown = new Float32Array(required * 2);
+      grown.set(this.history.subarray(0, this.historyLength));
+      this.history = grown;
+    }
+
+    for (let i = 0; i < input.length; i++) {
+      this.history[this.historyLength + i] = input[i];
+    }
+    this.historyLength = required;
+  }
+
+  private discardConsumed(): void {
+    // Keep everything the next output's kernel can still reach
+    const keepFrom = Math.max(0, Math.floor(this.position) - this.halfWidth + 1);
+    if (keepFrom === 0) return;
+
+    this.history.copyWithin(0, keepFrom, this.historyLength);
+    this.historyLength -= keepFrom;
+    this.position -= keepFrom;
+  }
+
+  private static buildTable(cutoff: number, halfWidth: number): Float32Array {
+    const taps = halfWidth * 2;
+    const table = new Float32Array((PHASES + 1) * taps);
+
+    for (let phase = 0; phase <= PHASES; phase++) {
+      const fraction = phase / PHASES;
+      let gain = 0;
+
+      for (let j = 0; j < taps; j++) {
+        // Distance in input samples between this tap and the output position
+        const t = j - halfWidth + 1 - fraction;
+        const x = cutoff * t;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        // Blackman window over the kernel span
+        const w = Math.abs(t) >= halfWidth ? 0 : 0.42 + 0.5 * Math.cos(Math.PI * t / halfWidth) + 0.08 * Math.cos(2 * Math.PI * t / halfWidth);
+        const value = cutoff * sinc * w;
+
+        table[phase * taps + j] = value;
+        gain += value;
+      }
+
+      // Normalise each phase to unity DC gain
+      for (let j = 0; j < taps; j++) {
+        table[phase * taps + j] /= gain;
+      }
+    }
+
+    return table;
+  }
+}
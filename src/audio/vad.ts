@@ -0,0 +1,217 @@
+/**
+ * Local voice activity detection on caller audio (8kHz PCM, 20ms Twilio frames).
+ */
+
+export interface VoiceActivityDetector {
+  readonly name: string;
+  /** Classifies one frame of 8kHz PCM as speech or not */
+  isSpeech(frame: Int16Array): boolean;
+  reset(): void;
+  /** Energy (dBFS) a frame must exceed to count as speech, for detectors that track one */
+  readonly speechThresholdDb?: number;
+}
+
+export interface VadFeatures {
+  energyDb: number;
+  zeroCrossingRate: number;
+  spectralFlatness: number;
+}
+
+export interface AdaptiveVadOptions {
+  calibrationMs: number;     // Audio used to estimate the line's noise floor at the start of the call
+  marginDb: number;          // How far above the noise floor a frame must be to count as speech
+  maxFlatness: number;       // Noise has a flat spectrum; voiced speech doesn't
+  maxZeroCrossingRate: number;  // Hiss and clicks cross zero far more often than speech
+  hangoverFrames: number;    // Frames a speech decision is held through short dips
+}
+
+export type VadMode = 'adaptive' | 'remote';
+
+const SAMPLE_RATE = 8000;
+const DFT_SIZE = 128;
+const MIN_ENERGY_DB = -90;
+// Starting noise floor until calibration completes (roughly a quiet phone line)
+const DEFAULT_NOISE_FLOOR_DB = -55;
+// Lowest the noise floor may go, so a digitally silent line doesn't make faint noise or echo count as speech
+const MIN_NOISE_FLOOR_DB = -65;
+
+const DEFAULT_OPTIONS: AdaptiveVadOptions = {
+  calibrationMs: parseInt(process.env.VAD_CALIBRATION_MS || '1500'),
+  marginDb: parseFloat(process.env.VAD_MARGIN_DB || '9'),
+  maxFlatness: 0.5,
+  maxZeroCrossingRate: 0.4,
+  hangoverFrames: 3
+};
+
+// Precomputed DFT twiddles and Hann window for the flatness estimate
+const HANN = new Float32Array(DFT_SIZE);
+const COS = new Float32Array(DFT_SIZE * (DFT_SIZE / 2));
+const SIN = new Float32Array(DFT_SIZE * (DFT_SIZE / 2));
+
+for (let n = 0; n < DFT_SIZE; n++) {
+  HANN[n] = 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / (DFT_SIZE - 1));
+}
+for (let k = 0; k < DFT_SIZE / 2; k++) {
+  for (let n = 0; n < DFT_SIZE; n++) {
+    COS[k * DFT_SIZE + n] = Math.cos((2 * Math.PI * k * n) / DFT_SIZE);
+    SIN[k * DFT_SIZE + n] = Math.sin((2 * Math.PI * k * n) / DFT_SIZE);
+  }
+}
+
+/**
+ * Computes the per-frame features the adaptive detector decides on
+ */
+export function extractFeatures(frame: Int16Array): VadFeatures {
+  let sum = 0;
+  let crossings = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+    if (i > 0 && (frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+
+  const rms = Math.sqrt(sum / Math.max(1, frame.length)) / 32768;
+  const energyDb = rms > 0 ? Math.max(MIN_ENERGY_DB, 20 * Math.log10(rms)) : MIN_ENERGY_DB;
+
+  return {
+    energyDb,
+    zeroCrossingRate: crossings / Math.max(1, frame.length - 1),
+    spectralFlatness: spectralFlatness(frame)
+  };
+}
+
+/**
+ * Geometric over arithmetic mean of the power spectrum (0 = tonal, 1 = white noise),
+ * measured over the 300-3400Hz telephone speech band
+ */
+function spectralFlatness(frame: Int16Array): number {
+  const n = Math.min(DFT_SIZE, frame.length);
+  const lowBin = Math.floor((300 * DFT_SIZE) / SAMPLE_RATE);
+  const highBin = Math.ceil((3400 * DFT_SIZE) / SAMPLE_RATE);
+
+  let logSum = 0;
+  let linearSum = 0;
+  let bins = 0;
+
+  for (let k = lowBin; k <= highBin && k < DFT_SIZE / 2; k++) {
+    let re = 0;
+    let im = 0;
+    const row = k * DFT_SIZE;
+    for (let i = 0; i < n; i++) {
+      const sample = frame[i] * HANN[i];
+      re += sample * COS[row + i];
+      im -= sample * SIN[row + i];
+    }
+    const power = re * re + im * im + 1e-3;
+    logSum += Math.log(power);
+    linearSum += power;
+    bins++;
+  }
+
+  return Math.exp(logSum / bins) / (linearSum / bins);
+}
+
+/**
+ * Energy detector that tracks the line's noise floor. The floor is calibrated
+ * from the quietest frames in the first seconds of the call, then follows the
+ * background level during non-speech frames, so noisy lines need louder speech
+ * and quiet callers are still heard on clean lines.
+ */
+export class AdaptiveEnergyVad implements VoiceActivityDetector {
+  readonly name = 'adaptive';
+  private readonly options: AdaptiveVadOptions;
+  private noiseFloorDb: number = DEFAULT_NOISE_FLOOR_DB;
+  private calibrationEnergies: number[] = [];
+  private calibrationSamples: number = 0;
+  private isCalibrated: boolean = false;
+  private hangover: number = 0;
+  private lastFeatures?: VadFeatures;
+
+  constructor(options: Partial<AdaptiveVadOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get noiseFloor(): number {
+    return this.noiseFloorDb;
+  }
+
+  get speechThresholdDb(): number {
+    return this.noiseFloorDb + this.options.marginDb;
+  }
+
+  get features(): VadFeatures | undefined {
+    return this.lastFeatures;
+  }
+
+  isSpeech(frame: Int16Array): boolean {
+    const features = extractFeatures(frame);
+    this.lastFeatures = features;
+
+    if (!this.isCalibrated) {
+      this.calibrate(features, frame.length);
+    }
+
+    const loudEnough = features.energyDb > this.noiseFloorDb + this.options.marginDb;
+    const speechLike = features.spectralFlatness < this.options.maxFlatness &&
+      features.zeroCrossingRate < this.options.maxZeroCrossingRate;
+
+    if (loudEnough && speechLike) {
+      this.hangover = this.options.hangoverFrames;
+      return true;
+    }
+
+    this.updateNoiseFloor(features.energyDb, speechLike);
+
+    if (this.hangover > 0) {
+      this.hangover--;
+      return true;
+    }
+    return false;
+  }
+
+  reset(): void {
+    this.noiseFloorDb = DEFAULT_NOISE_FLOOR_DB;
+    this.calibrationEnergies = [];
+    this.calibrationSamples = 0;
+    this.isCalibrated = false;
+    this.hangover = 0;
+  }
+
+  private calibrate(features: VadFeatures, samples: number): void {
+    this.calibrationEnergies.push(features.energyDb);
+    this.calibrationSamples += samples;
+
+    if ((this.calibrationSamples / SAMPLE_RATE) * 1000 >= this.options.calibrationMs) {
+      // The 20th percentile ignores any speech in the window (e.g. an early "hello?")
+      const sorted = [...this.calibrationEnergies].sort((a, b) => a - b);
+      this.noiseFloorDb = Math.max(MIN_NOISE_FLOOR_DB, sorted[Math.floor(sorted.length * 0.2)]);
+      this.isCalibrated = true;
+      this.calibrationEnergies = [];
+      console.log(`🎚️  VAD calibrated - noise floor ${this.noiseFloorDb.toFixed(1)}dBFS`);
+    }
+  }
+
+  private updateNoiseFloor(energyDb: number, speechLike: boolean): void {
+    // Speech-like frames well above the floor are more likely quiet speech than background noise
+    if (speechLike && energyDb > this.noiseFloorDb + this.options.marginDb / 2) return;
+
+    // Fall quickly when the line gets quieter, rise slowly when it gets noisier
+    const rate = energyDb < this.noiseFloorDb ? 0.3 : 0.02;
+    this.noiseFloorDb = Math.max(MIN_NOISE_FLOOR_DB, this.noiseFloorDb + (energyDb - this.noiseFloorDb) * rate);
+  }
+}
+
+/**
+ * Builds the detector for a call, or null when local VAD is disabled and
+ * barge-in relies on ElevenLabs vad_score events instead
+ */
+export function createVoiceActivityDetector(mode: VadMode = (process.env.VAD_MODE as VadMode) || 'adaptive'): VoiceActivityDetector | null {
+  switch (mode) {
+    case 'remote':
+      return null;
+    case 'adaptive':
+      return new AdaptiveEnergyVad();
+    default:
+      console.warn(`⚠️  Unknown VAD_MODE "${mode}", using adaptive`);
+      return new AdaptiveEnergyVad();
+  }
+}
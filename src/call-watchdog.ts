@@ -0,0 +1,86 @@
+/**
+ * Watches a call for dead air and for running too long.
+ *
+ * Dead air is counted from the last moment either side was speaking. After
+ * DEAD_AIR_NUDGE_SECONDS the agent is nudged to check on the caller; from then
+ * on only the caller can reset the clock, so the agent asking "are you still
+ * there?" doesn't keep a silent line open. After DEAD_AIR_HANGUP_SECONDS of dead
+ * air, or MAX_CALL_DURATION_SECONDS into the call, the call is ended.
+ * Any limit set to 0 is disabled.
+ */
+
+export type WatchdogRule = 'dead_air_timeout' | 'max_duration_reached';
+
+export interface WatchdogHandlers {
+  isCallerSpeaking(): boolean;
+  isAgentSpeaking(): boolean;
+  onNudge(silentMs: number): void;
+  onLimitReached(rule: WatchdogRule): void;
+}
+
+const TICK_MS = 1000;
+
+export class CallWatchdog {
+  private timer?: NodeJS.Timeout;
+  private startedAt: number = 0;
+  private silenceSince: number = 0;
+  private hasNudged: boolean = false;
+
+  constructor(
+    private readonly handlers: WatchdogHandlers,
+    private readonly nudgeMs: number = parseInt(process.env.DEAD_AIR_NUDGE_SECONDS || '10') * 1000,
+    private readonly hangupMs: number = parseInt(process.env.DEAD_AIR_HANGUP_SECONDS || '30') * 1000,
+    private readonly maxDurationMs: number = parseInt(process.env.MAX_CALL_DURATION_SECONDS || '1800') * 1000
+  ) {}
+
+  start(startedAt: number = Date.now()): void {
+    if (this.timer) return;
+
+    this.startedAt = startedAt;
+    this.silenceSince = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  /**
+   * Resets the dead-air clock for caller input the VAD can miss, e.g. a short reply or a keypress
+   */
+  recordCallerActivity(): void {
+    this.silenceSince = Date.now();
+    this.hasNudged = false;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+
+    if (this.maxDurationMs > 0 && now - this.startedAt >= this.maxDurationMs) {
+      this.stop();
+      this.handlers.onLimitReached('max_duration_reached');
+      return;
+    }
+
+    if (this.handlers.isCallerSpeaking()) {
+      this.recordCallerActivity();
+      return;
+    }
+    if (!this.hasNudged && this.handlers.isAgentSpeaking()) {
+      this.silenceSince = now;
+      return;
+    }
+
+    const silentMs = now - this.silenceSince;
+    if (this.hangupMs > 0 && silentMs >= this.hangupMs) {
+      this.stop();
+      this.handlers.onLimitReached('dead_air_timeout');
+    } else if (this.nudgeMs > 0 && !this.hasNudged && silentMs >= this.nudgeMs) {
+      this.hasNudged = true;
+      this.handlers.onNudge(silentMs);
+    }
+  }
+}
@@ -1,12 +1,16 @@
 import WebSocket from 'ws';
+import { Lead } from './database/models/Lead';
+import { LeadService } from './services/lead.service';
 
-interface PooledConnection {
+export interface PooledConnection {
   ws: WebSocket;
   createdAt: number;
   callSid?: string;
   phoneNumber?: string;
   isReady: boolean;
   lastUsed: number;
+  ready?: Promise<boolean>;  // Resolves once the socket has opened (false if it failed)
+  leadLookup?: Promise<Lead | null>;  // Lead lookup started while the phone rings
 }
 
 export class ConnectionPool {
@@ -16,6 +20,7 @@ export class ConnectionPool {
   private readonly MAX_IDLE_TIME = 300000; // 5 minutes
   private readonly HOT_POOL_SIZE = 0; // Disabled - create connections on demand
   private readonly MAX_CONNECTION_AGE = 1800000; // 30 minutes max age
+  private readonly CONNECT_TIMEOUT = 10000; // Same as a session's own connection attempt
   
   private constructor() {
     // Pre-warm hot connections immediately
@@ -46,13 +51,15 @@ export class ConnectionPool {
     
     // Check if we already have a connection for this call
     const existing = this.connections.get(callSid);
-    if (existing && existing.ws.readyState === WebSocket.OPEN) {
+    if (existing && this.isAlive(existing.ws)) {
       console.log(`♻️  Reusing pre-warmed connection for ${callSid}`);
       existing.lastUsed = Date.now();
-      if (phoneNumber) {
+      if (phoneNumber && !existing.leadLookup) {
         existing.phoneNumber = phoneNumber;
+        existing.leadLookup = this.lookupLead(phoneNumber, callSid);
       }
-      return existing.ws;
+      const isReady = existing.ready ? await existing.ready : existing.isReady;
+      return isReady ? existing.ws : null;
     }
     
     // Try to get a hot connection first (FASTEST)
@@ -61,6 +68,10 @@ export class ConnectionPool {
       console.log(`🔥 Using hot connection for ${callSid} (0ms setup time!)`);
       hotConnection.callSid = callSid;
       hotConnection.lastUsed = Date.now();
+      if (phoneNumber) {
+        hotConnection.phoneNumber = phoneNumber;
+        hotConnection.leadLookup = this.lookupLead(phoneNumber, callSid);
+      }
       this.connections.set(callSid, hotConnection);
       
       // Immediately start warming a replacement
@@ -71,7 +82,19 @@ export class ConnectionPool {
     
     // Fallback: Create new connection (slower)
     console.log(`🔌 Creating new connection for ${callSid}...`);
-    return this.createNewConnection(callSid);
+    return this.createNewConnection(callSid, phoneNumber);
+  }
+
+  private lookupLead(phoneNumber: string, callSid: string): Promise<Lead | null> {
+    console.log(`🔍 Looking up lead data for ${phoneNumber} while phone rings`);
+    return LeadService.getLeadByPhoneNumber(phoneNumber, callSid).catch(error => {
+      console.error('❌ Error pre-loading lead data:', error);
+      return null;
+    });
+  }
+
+  private isAlive(ws: WebSocket): boolean {
+    return ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING;
   }
 
   private getHotConnection(): PooledConnection | null {
@@ -145,10 +168,10 @@ export class ConnectionPool {
       }
 
       const ws = new WebSocket(
-        `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}&output_format=ulaw_8000`,
+        `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}`,
         {
           headers: {
-            'Authorization': `Bearer ${apiKey}`
+            'xi-api-key': apiKey
           }
         }
       );
@@ -191,7 +214,7 @@ export class ConnectionPool {
     this.hotConnections = this.hotConnections.filter(c => c !== connection);
   }
 
-  private async createNewConnection(callSid: string): Promise<WebSocket | null> {
+  private async createNewConnection(callSid: string, phoneNumber?: string): Promise<WebSocket | null> {
     const agentId = process.env.ELEVENLABS_AGENT_ID;
     const apiKey = process.env.ELEVENLABS_API_KEY;
     
@@ -201,34 +224,61 @@ export class ConnectionPool {
     }
     
     const ws = new WebSocket(
-      `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}&output_format=ulaw_8000`,
+      `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}`,
       {
         headers: {
-          'Authorization': `Bearer ${apiKey}`
+          'xi-api-key': apiKey
         }
       }
     );
 
-    return new Promise((resolve) => {
+    const connection: PooledConnection = {
+      ws,
+      createdAt: Date.now(),
+      lastUsed: Date.now(),
+      callSid,
+      phoneNumber,
+      isReady: false
+    };
+
+    // Register immediately so a session starting mid-handshake can still claim it
+    connection.ready = new Promise((resolve) => {
+      // A socket stuck connecting is given up on, so the session opens its own
+      const connectTimeout = setTimeout(() => {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          console.error(`❌ Pre-connection for ${callSid} timed out after ${this.CONNECT_TIMEOUT / 1000} seconds`);
+          ws.terminate();
+          resolve(false);
+        }
+      }, this.CONNECT_TIMEOUT);
+
       ws.on('open', () => {
-        const connection: PooledConnection = {
-          ws,
-          createdAt: Date.now(),
-          lastUsed: Date.now(),
-          callSid,
-          isReady: true
-        };
-        
-        this.connections.set(callSid, connection);
+        clearTimeout(connectTimeout);
+        connection.isReady = true;
         console.log(`✅ Pre-connected to ElevenLabs for ${callSid}`);
-        resolve(ws);
+        resolve(true);
       });
 
       ws.on('error', (error) => {
+        clearTimeout(connectTimeout);
         console.error('❌ Connection error:', error);
-        resolve(null);
+        resolve(false);
+      });
+
+      ws.on('close', () => {
+        clearTimeout(connectTimeout);
+        resolve(false);
       });
     });
+
+    if (phoneNumber) {
+      connection.leadLookup = this.lookupLead(phoneNumber, callSid);
+    }
+
+    this.connections.set(callSid, connection);
+
+    const isReady = await connection.ready;
+    return isReady ? ws : null;
   }
 
   private cleanupIdleConnections(): void {
@@ -238,7 +288,7 @@ export class ConnectionPool {
     for (const [callSid, connection] of this.connections.entries()) {
       const isStale = (now - connection.lastUsed) > this.MAX_IDLE_TIME;
       const isOld = (now - connection.createdAt) > this.MAX_CONNECTION_AGE;
-      const isDead = connection.ws.readyState !== WebSocket.OPEN;
+      const isDead = !this.isAlive(connection.ws);
       
       if (isStale || isOld || isDead) {
         console.log(`🧹 Cleaning up connection for ${callSid}`);
@@ -276,12 +326,17 @@ export class ConnectionPool {
     }
   }
 
-  markAsActive(callSid: string): void {
+  /**
+   * Hands the pre-connection for a call over to its session
+   */
+  markAsActive(callSid: string): PooledConnection | null {
     const connection = this.connections.get(callSid);
     if (connection) {
       // Remove from pool so it won't be cleaned up
       this.connections.delete(callSid);
+      return connection;
     }
+    return null;
   }
 
   releaseConnection(callSid: string): void {
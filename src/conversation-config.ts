@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Lead } from './database/models/Lead';
+import { AgentTemplate } from './agent-template';
+import { ConversationConfig, ConversationSettings } from './types/elevenlabs';
+
+const CAMPAIGNS_FILE = process.env.CAMPAIGNS_CONFIG_PATH || path.join(process.cwd(), 'campaigns.json');
+
+/**
+ * Builds the conversation_config_override sent when a conversation starts.
+ *
+ * Settings come from the lead's own overrides, then its campaign (from
+ * campaigns.json), then built-in defaults. Prompt additions and the lead
+ * context are appended to the agent's base prompt (see AgentTemplate), because
+ * an override replaces the whole prompt.
+ * The agent must allow these overrides in its Security settings.
+ */
+export class ConversationConfigBuilder {
+  private static instance: ConversationConfigBuilder;
+  private campaigns: Record<string, ConversationSettings> | null = null;
+
+  static getInstance(): ConversationConfigBuilder {
+    if (!ConversationConfigBuilder.instance) {
+      ConversationConfigBuilder.instance = new ConversationConfigBuilder();
+    }
+    return ConversationConfigBuilder.instance;
+  }
+
+  // Off unless asked for: an agent without overrides allowed rejects the whole conversation
+  static isEnabled(): boolean {
+    return process.env.ELEVENLABS_CONFIG_OVERRIDES === 'true';
+  }
+
+  async build(lead: Lead | null, leadContext: string, isReconnect: boolean = false): Promise<ConversationConfig | null> {
+    if (!ConversationConfigBuilder.isEnabled()) return null;
+
+    const settings = this.resolveSettings(lead);
+    const config: ConversationConfig = { agent: {} };
+
+    // A resumed conversation carries on rather than greeting the caller again
+    if (isReconnect) {
+      config.agent!.first_message = '';
+    } else if (settings.firstMessage) {
+      config.agent!.first_message = settings.firstMessage;
+    }
+
+    if (settings.language) {
+      config.agent!.language = settings.language;
+    }
+
+    const additions = [settings.promptAdditions, leadContext].filter(Boolean).join('\n\n');
+    if (additions) {
+      const template = await AgentTemplate.getInstance().get();
+      if (template) {
+        config.agent!.prompt = { prompt: [template.prompt, additions].filter(Boolean).join('\n\n') };
+      } else {
+        console.warn('⚠️  Agent prompt unavailable - sending the conversation without prompt additions');
+      }
+    }
+
+    if (settings.voiceId) {
+      config.tts = { voice_id: settings.voiceId };
+    }
+
+    return Object.keys(config.agent!).length > 0 || config.tts ? config : null;
+  }
+
+  /**
+   * Lead overrides win over campaign settings, which win over the defaults
+   */
+  private resolveSettings(lead: Lead | null): ConversationSettings {
+    if (!lead) return {};
+
+    // Filled in by ElevenLabs from the dynamic variables
+    const defaults: ConversationSettings = {
+      firstMessage: '{{custom_greeting}} {{custom_intro}}'
+    };
+    const campaign = lead.campaign ? this.getCampaigns()[lead.campaign] || {} : {};
+    const overrides = lead.conversation_overrides || {};
+
+    return {
+      ...defaults,
+      ...campaign,
+      ...overrides,
+      // Additions accumulate rather than replace each other
+      promptAdditions: [campaign.promptAdditions, overrides.promptAdditions].filter(Boolean).join('\n\n') || undefined
+    };
+  }
+
+  private getCampaigns(): Record<string, ConversationSettings> {
+    if (!this.campaigns) {
+      this.campaigns = {};
+      if (fs.existsSync(CAMPAIGNS_FILE)) {
+        try {
+          this.campaigns = JSON.parse(fs.readFileSync(CAMPAIGNS_FILE, 'utf8'));
+          console.log(`📣 Loaded ${Object.keys(this.campaigns!).length} campaign(s) from ${CAMPAIGNS_FILE}`);
+        } catch (error) {
+          console.error(`❌ Error reading ${CAMPAIGNS_FILE}:`, error);
+        }
+      }
+    }
+    return this.campaigns!;
+  }
+}
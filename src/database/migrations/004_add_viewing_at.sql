@@ -0,0 +1,7 @@
+-- Migration: Add booked viewing slot to leads table
+-- Date: 2026-10-19
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS viewing_at TIMESTAMP;
+
+COMMENT ON COLUMN leads.viewing_at IS 'Viewing slot booked by the agent during a call';
@@ -0,0 +1,21 @@
+-- Migration: Create conversation_turns table for call transcripts
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS conversation_turns (
+  id SERIAL PRIMARY KEY,
+  call_sid VARCHAR(100) NOT NULL,
+  lead_id INTEGER REFERENCES leads(id) ON DELETE CASCADE,
+  conversation_id VARCHAR(100),
+  speaker VARCHAR(10) NOT NULL CHECK (speaker IN ('user', 'agent')),
+  text TEXT NOT NULL,
+  offset_ms INTEGER NOT NULL DEFAULT 0,
+  spoken_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_conversation_turns_call_sid ON conversation_turns(call_sid);
+CREATE INDEX idx_conversation_turns_lead_id ON conversation_turns(lead_id);
+CREATE INDEX idx_conversation_turns_conversation_id ON conversation_turns(conversation_id);
+
+COMMENT ON COLUMN conversation_turns.conversation_id IS 'ElevenLabs conversation ID from conversation_initiation_metadata';
+COMMENT ON COLUMN conversation_turns.offset_ms IS 'Milliseconds since the Twilio stream started';
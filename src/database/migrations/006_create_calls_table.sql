@@ -0,0 +1,39 @@
+-- Migration: Move call details from leads into a calls table (one lead -> many calls)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS calls (
+  id SERIAL PRIMARY KEY,
+  lead_id INTEGER REFERENCES leads(id) ON DELETE CASCADE,
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  call_sid VARCHAR(100) NOT NULL UNIQUE,
+  stream_sid VARCHAR(100),
+  conversation_id VARCHAR(100),
+  started_at TIMESTAMP,
+  ended_at TIMESTAMP,
+  duration_seconds INTEGER,
+  outcome VARCHAR(100),
+  ttft_ms INTEGER,
+  audio_setup_ms INTEGER,
+  total_responses INTEGER,
+  total_audio_bytes INTEGER,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_calls_lead_id ON calls(lead_id);
+CREATE INDEX idx_calls_conversation_id ON calls(conversation_id);
+CREATE INDEX idx_calls_started_at ON calls(started_at);
+
+CREATE TRIGGER update_calls_updated_at BEFORE UPDATE
+    ON calls FOR EACH ROW EXECUTE PROCEDURE
+    update_updated_at_column();
+
+-- Preserve the last call recorded on each lead
+INSERT INTO calls (lead_id, direction, call_sid, started_at, ended_at, outcome)
+SELECT id, 'outbound', call_sid, call_started_at, completed_at, call_outcome
+FROM leads
+WHERE call_sid IS NOT NULL
+ON CONFLICT (call_sid) DO NOTHING;
+
+ALTER TABLE leads DROP COLUMN IF EXISTS call_sid;
+ALTER TABLE leads DROP COLUMN IF EXISTS call_started_at;
@@ -0,0 +1,7 @@
+-- Migration: Record how much of an interrupted agent turn the caller heard
+-- Date: 2026-10-19
+
+ALTER TABLE conversation_turns
+ADD COLUMN IF NOT EXISTS heard_ms INTEGER;
+
+COMMENT ON COLUMN conversation_turns.heard_ms IS 'Milliseconds of agent audio played before the caller interrupted (null if not interrupted)';
@@ -0,0 +1,14 @@
+-- Migration: Per-lead call recording settings and recording file on calls
+-- Date: 2026-10-19
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS campaign VARCHAR(100),
+ADD COLUMN IF NOT EXISTS record_calls BOOLEAN,
+ADD COLUMN IF NOT EXISTS recording_consent BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS recording_path VARCHAR(500);
+
+COMMENT ON COLUMN leads.record_calls IS 'Per-lead recording override; null follows the campaign setting';
+COMMENT ON COLUMN leads.recording_consent IS 'Lead has consented to calls being recorded';
+COMMENT ON COLUMN calls.recording_path IS 'Stereo WAV recording on local disk (caller left, agent right)';
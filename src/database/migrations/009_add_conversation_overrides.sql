@@ -0,0 +1,7 @@
+-- Migration: Per-lead ElevenLabs conversation overrides
+-- Date: 2026-10-19
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS conversation_overrides JSONB;
+
+COMMENT ON COLUMN leads.conversation_overrides IS 'First message, prompt additions, language and voice for this lead';
@@ -0,0 +1,7 @@
+-- Migration: Record caller keypresses on calls
+-- Date: 2026-10-19
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS dtmf_inputs JSONB;
+
+COMMENT ON COLUMN calls.dtmf_inputs IS 'Keys pressed by the caller, with the action taken for each';
@@ -0,0 +1,7 @@
+-- Migration: Store the post-call outcome extraction on calls
+-- Date: 2026-10-19
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS outcome_extraction JSONB;
+
+COMMENT ON COLUMN calls.outcome_extraction IS 'Post-call outcome classification and extracted lead fields, with evidence';
@@ -0,0 +1,14 @@
+-- Migration: Store the ElevenLabs post-call transcript and analysis on calls
+-- Date: 2026-10-19
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS elevenlabs_transcript JSONB,
+ADD COLUMN IF NOT EXISTS transcript_summary TEXT,
+ADD COLUMN IF NOT EXISTS call_successful VARCHAR(20),
+ADD COLUMN IF NOT EXISTS data_collection_results JSONB,
+ADD COLUMN IF NOT EXISTS evaluation_criteria_results JSONB;
+
+COMMENT ON COLUMN calls.elevenlabs_transcript IS 'Transcript from the ElevenLabs post-call webhook';
+COMMENT ON COLUMN calls.call_successful IS 'ElevenLabs success evaluation: success, failure or unknown';
+COMMENT ON COLUMN calls.data_collection_results IS 'Values collected by the agent''s data collection items';
+COMMENT ON COLUMN calls.evaluation_criteria_results IS 'Results of the agent''s evaluation criteria';
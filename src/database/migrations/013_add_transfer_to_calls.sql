@@ -0,0 +1,11 @@
+-- Migration: Record warm transfers to staff on calls
+-- Date: 2026-10-19
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS transferred_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS transfer_target VARCHAR(100),
+ADD COLUMN IF NOT EXISTS transfer_reason VARCHAR(255),
+ADD COLUMN IF NOT EXISTS transfer_summary TEXT;
+
+COMMENT ON COLUMN calls.transfer_target IS 'Staff number or queue the caller was transferred to';
+COMMENT ON COLUMN calls.transfer_summary IS 'Whisper played to the staff member before they were connected';
@@ -0,0 +1,7 @@
+-- Migration: Record answering machine detection results on calls
+-- Date: 2026-10-19
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS answered_by VARCHAR(30);
+
+COMMENT ON COLUMN calls.answered_by IS 'Twilio answering machine detection result, e.g. human or machine_end_beep';
@@ -0,0 +1,11 @@
+-- Migration: Track the Twilio call lifecycle on calls
+-- Date: 2026-10-19
+
+ALTER TABLE calls
+ADD COLUMN IF NOT EXISTS twilio_status VARCHAR(20),
+ADD COLUMN IF NOT EXISTS ringing_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS answered_at TIMESTAMP;
+
+COMMENT ON COLUMN calls.twilio_status IS 'Latest call status from the Twilio status callback';
+COMMENT ON COLUMN calls.ringing_at IS 'When the lead''s phone started ringing';
+COMMENT ON COLUMN calls.answered_at IS 'When the call was answered';
@@ -0,0 +1,270 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config';
+import { Lead } from './Lead';
+import { DtmfInput } from '../../dtmf-router';
+import { OutcomeExtraction } from '../../outcome-extractor';
+import { PostCallAnalysis, PostCallWebhookPayload } from '../../types/elevenlabs';
+import { TwilioCallStatus } from '../../types/twilio';
+
+// Call attributes interface
+interface CallAttributes {
+  id: number;
+  lead_id?: number;
+  direction: 'inbound' | 'outbound';
+  call_sid: string;
+  stream_sid?: string;
+  conversation_id?: string;
+  started_at?: Date;
+  ended_at?: Date;
+  duration_seconds?: number;
+  outcome?: string;
+  answered_by?: string;
+  // Lifecycle reported by Twilio's status callback
+  twilio_status?: TwilioCallStatus;
+  ringing_at?: Date;
+  answered_at?: Date;
+  // Conversation metrics captured by the session
+  ttft_ms?: number;
+  audio_setup_ms?: number;
+  total_responses?: number;
+  total_audio_bytes?: number;
+  recording_path?: string;
+  dtmf_inputs?: DtmfInput[];
+  outcome_extraction?: OutcomeExtraction;
+  // From the ElevenLabs post-call webhook
+  elevenlabs_transcript?: PostCallWebhookPayload['data']['transcript'];
+  transcript_summary?: string;
+  call_successful?: PostCallAnalysis['call_successful'];
+  data_collection_results?: PostCallAnalysis['data_collection_results'];
+  evaluation_criteria_results?: PostCallAnalysis['evaluation_criteria_results'];
+  // Set when the caller was handed over to a person
+  transferred_at?: Date;
+  transfer_target?: string;
+  transfer_reason?: string;
+  transfer_summary?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Attributes required for creation
+interface CallCreationAttributes extends Optional<CallAttributes, 'id' | 'created_at' | 'updated_at'> {}
+
+// Call model class
+export class Call extends Model<CallAttributes, CallCreationAttributes> implements CallAttributes {
+  public id!: number;
+  public lead_id?: number;
+  public direction!: 'inbound' | 'outbound';
+  public call_sid!: string;
+  public stream_sid?: string;
+  public conversation_id?: string;
+  public started_at?: Date;
+  public ended_at?: Date;
+  public duration_seconds?: number;
+  public outcome?: string;
+  public answered_by?: string;
+  // Lifecycle reported by Twilio's status callback
+  public twilio_status?: TwilioCallStatus;
+  public ringing_at?: Date;
+  public answered_at?: Date;
+  // Conversation metrics captured by the session
+  public ttft_ms?: number;
+  public audio_setup_ms?: number;
+  public total_responses?: number;
+  public total_audio_bytes?: number;
+  public recording_path?: string;
+  public dtmf_inputs?: DtmfInput[];
+  public outcome_extraction?: OutcomeExtraction;
+  // From the ElevenLabs post-call webhook
+  public elevenlabs_transcript?: PostCallWebhookPayload['data']['transcript'];
+  public transcript_summary?: string;
+  public call_successful?: PostCallAnalysis['call_successful'];
+  public data_collection_results?: PostCallAnalysis['data_collection_results'];
+  public evaluation_criteria_results?: PostCallAnalysis['evaluation_criteria_results'];
+  // Set when the caller was handed over to a person
+  public transferred_at?: Date;
+  public transfer_target?: string;
+  public transfer_reason?: string;
+  public transfer_summary?: string;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+}
+
+Call.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    lead_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'leads',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    direction: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isIn: [['inbound', 'outbound']]
+      }
+    },
+    call_sid: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+      comment: 'Twilio call SID'
+    },
+    stream_sid: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'Twilio media stream SID'
+    },
+    conversation_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'ElevenLabs conversation ID'
+    },
+    started_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    ended_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    duration_seconds: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    outcome: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+    answered_by: {
+      type: DataTypes.STRING(30),
+      allowNull: true,
+      comment: 'Twilio answering machine detection result, e.g. human or machine_end_beep'
+    },
+    twilio_status: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      comment: 'Latest call status from the Twilio status callback'
+    },
+    ringing_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    answered_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    ttft_ms: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      comment: 'Time from stream start to first agent audio'
+    },
+    audio_setup_ms: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      comment: 'Time from stream start to first caller audio forwarded'
+    },
+    total_responses: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    total_audio_bytes: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    recording_path: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      comment: 'Stereo WAV recording on local disk (caller left, agent right)'
+    },
+    dtmf_inputs: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Keys pressed by the caller, with the action taken for each'
+    },
+    outcome_extraction: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Post-call outcome classification and extracted lead fields, with evidence'
+    },
+    elevenlabs_transcript: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Transcript from the ElevenLabs post-call webhook'
+    },
+    transcript_summary: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    call_successful: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+      comment: 'ElevenLabs success evaluation: success, failure or unknown'
+    },
+    data_collection_results: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Values collected by the agent\'s data collection items'
+    },
+    evaluation_criteria_results: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Results of the agent\'s evaluation criteria'
+    },
+    transferred_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    transfer_target: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'Staff number or queue the caller was transferred to'
+    },
+    transfer_reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true
+    },
+    transfer_summary: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Whisper played to the staff member before they were connected'
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    modelName: 'Call',
+    tableName: 'calls',
+    underscored: true,
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    indexes: [
+      { fields: ['lead_id'] },
+      { fields: ['conversation_id'] },
+      { fields: ['started_at'] }
+    ]
+  }
+);
+
+Lead.hasMany(Call, { foreignKey: 'lead_id', as: 'calls' });
+Call.belongsTo(Lead, { foreignKey: 'lead_id', as: 'lead' });
+
+export default Call;
@@ -0,0 +1,113 @@
+import { Model, DataTypes, Optional } from 'sequelize';
+import { sequelize } from '../config';
+import { Lead } from './Lead';
+
+// Conversation turn attributes interface
+interface ConversationTurnAttributes {
+  id: number;
+  call_sid: string;
+  lead_id?: number;
+  conversation_id?: string;
+  speaker: 'user' | 'agent';
+  text: string;
+  offset_ms: number;  // Milliseconds since the Twilio stream started
+  heard_ms?: number;  // Agent audio played before the caller interrupted
+  spoken_at: Date;
+  created_at: Date;
+}
+
+// Attributes required for creation
+interface ConversationTurnCreationAttributes extends Optional<ConversationTurnAttributes, 'id' | 'created_at'> {}
+
+// Conversation turn model class
+export class ConversationTurn extends Model<ConversationTurnAttributes, ConversationTurnCreationAttributes> implements ConversationTurnAttributes {
+  public id!: number;
+  public call_sid!: string;
+  public lead_id?: number;
+  public conversation_id?: string;
+  public speaker!: 'user' | 'agent';
+  public text!: string;
+  public offset_ms!: number;
+  public heard_ms?: number;
+  public spoken_at!: Date;
+  public readonly created_at!: Date;
+}
+
+ConversationTurn.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    call_sid: {
+      type: DataTypes.STRING(100),
+      allowNull: false
+    },
+    lead_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'leads',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    conversation_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'ElevenLabs conversation ID from conversation_initiation_metadata'
+    },
+    speaker: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isIn: [['user', 'agent']]
+      }
+    },
+    text: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    offset_ms: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Milliseconds since the Twilio stream started'
+    },
+    heard_ms: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      comment: 'Milliseconds of agent audio played before the caller interrupted (null if not interrupted)'
+    },
+    spoken_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  },
+  {
+    sequelize,
+    modelName: 'ConversationTurn',
+    tableName: 'conversation_turns',
+    underscored: true,
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+    indexes: [
+      { fields: ['call_sid'] },
+      { fields: ['lead_id'] },
+      { fields: ['conversation_id'] }
+    ]
+  }
+);
+
+Lead.hasMany(ConversationTurn, { foreignKey: 'lead_id', as: 'conversationTurns' });
+ConversationTurn.belongsTo(Lead, { foreignKey: 'lead_id', as: 'lead' });
+
+export default ConversationTurn;
@@ -1,9 +1,10 @@
 import { Model, DataTypes, Optional } from 'sequelize';
 import { sequelize } from '../config';
 import { ContractLength } from '../../types/contract';
+import { ConversationSettings } from '../../types/elevenlabs';
 
 // Lead attributes interface
-interface LeadAttributes {
+export interface LeadAttributes {
   id: number;
   phone_number: string;
   external_lead_id?: string;
@@ -24,11 +25,14 @@ interface LeadAttributes {
   bedroom_count?: number;
   availability_at?: Date;
   property_cost?: number;
+  viewing_at?: Date;
   completeness_level: 'COMPLETE' | 'PARTIAL' | 'MINIMAL';
   source?: string;
+  campaign?: string;
+  record_calls?: boolean;  // Overrides the campaign's recording setting when set
+  recording_consent: boolean;
+  conversation_overrides?: ConversationSettings;
   status: 'pending' | 'in_progress' | 'completed' | 'failed';
-  call_sid?: string;
-  call_started_at?: Date;
   completed_at?: Date;
   call_outcome?: string;
   created_at: Date;
@@ -36,7 +40,7 @@ interface LeadAttributes {
 }
 
 // Attributes required for creation
-interface LeadCreationAttributes extends Optional<LeadAttributes, 'id' | 'created_at' | 'updated_at'> {}
+interface LeadCreationAttributes extends Optional<LeadAttributes, 'id' | 'recording_consent' | 'created_at' | 'updated_at'> {}
 
 // Lead model class
 export class Lead extends Model<LeadAttributes, LeadCreationAttributes> implements LeadAttributes {
@@ -60,11 +64,14 @@ export class Lead extends Model<LeadAttributes, LeadCreationAttributes> implemen
   public bedroom_count?: number;
   public availability_at?: Date;
   public property_cost?: number;
+  public viewing_at?: Date;
   public completeness_level!: 'COMPLETE' | 'PARTIAL' | 'MINIMAL';
   public source?: string;
+  public campaign?: string;
+  public record_calls?: boolean;  // Overrides the campaign's recording setting when set
+  public recording_consent!: boolean;
+  public conversation_overrides?: ConversationSettings;
   public status!: 'pending' | 'in_progress' | 'completed' | 'failed';
-  public call_sid?: string;
-  public call_started_at?: Date;
   public completed_at?: Date;
   public call_outcome?: string;
   public readonly created_at!: Date;
@@ -165,6 +172,11 @@ Lead.init(
       allowNull: true,
       comment: 'Monthly cost of the property'
     },
+    viewing_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Viewing slot booked by the agent during a call'
+    },
     completeness_level: {
       type: DataTypes.STRING(20),
       allowNull: false,
@@ -176,6 +188,26 @@ Lead.init(
       type: DataTypes.STRING(50),
       allowNull: true
     },
+    campaign: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+    record_calls: {
+      type: DataTypes.BOOLEAN,
+      allowNull: true,
+      comment: 'Per-lead recording override; null follows the campaign setting'
+    },
+    recording_consent: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      comment: 'Lead has consented to calls being recorded'
+    },
+    conversation_overrides: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'First message, prompt additions, language and voice for this lead'
+    },
     status: {
       type: DataTypes.STRING(20),
       allowNull: false,
@@ -184,14 +216,6 @@ Lead.init(
         isIn: [['pending', 'in_progress', 'completed', 'failed']]
       }
     },
-    call_sid: {
-      type: DataTypes.STRING(100),
-      allowNull: true
-    },
-    call_started_at: {
-      type: DataTypes.DATE,
-      allowNull: true
-    },
     completed_at: {
       type: DataTypes.DATE,
       allowNull: true
@@ -0,0 +1,55 @@
+/**
+ * Maps caller keypresses (Twilio `dtmf` events) to actions. Configured with
+ * DTMF_ACTIONS as comma-separated digit:action pairs, e.g. "1:confirm,9:opt_out,0:human".
+ * Digits without an action are forwarded to the agent as they are.
+ */
+
+export type DtmfAction = 'confirm' | 'opt_out' | 'human' | 'forward';
+
+export interface DtmfInput {
+  digit: string;
+  action: DtmfAction;
+  offsetMs: number;  // Milliseconds since the Twilio stream started
+}
+
+const DEFAULT_ACTIONS = '1:confirm,9:opt_out,0:human';
+const ACTIONS: DtmfAction[] = ['confirm', 'opt_out', 'human', 'forward'];
+
+export class DtmfRouter {
+  private actions: Map<string, DtmfAction> = new Map();
+
+  static fromEnv(spec: string = process.env.DTMF_ACTIONS ?? DEFAULT_ACTIONS): DtmfRouter {
+    const router = new DtmfRouter();
+
+    for (const pair of spec.split(',').map(entry => entry.trim()).filter(Boolean)) {
+      const [digit, action] = pair.split(':').map(part => part.trim());
+      if (!/^[0-9*#]$/.test(digit) || !ACTIONS.includes(action as DtmfAction)) {
+        console.warn(`⚠️  Ignoring invalid DTMF_ACTIONS entry "${pair}"`);
+        continue;
+      }
+      router.actions.set(digit, action as DtmfAction);
+    }
+
+    return router;
+  }
+
+  actionFor(digit: string): DtmfAction {
+    return this.actions.get(digit) || 'forward';
+  }
+
+  /**
+   * Describes the keypress for the agent, as a contextual update
+   */
+  static describe(digit: string, action: DtmfAction): string {
+    switch (action) {
+      case 'confirm':
+        return `The caller pressed ${digit} on their keypad to confirm. Treat this as a "yes" to your last question.`;
+      case 'opt_out':
+        return `The caller pressed ${digit} on their keypad to opt out of further calls. Apologise for the interruption, confirm they won't be contacted again, say goodbye and end the call.`;
+      case 'human':
+        return `The caller pressed ${digit} on their keypad to speak to a person. Let them know a member of the team will call them back shortly.`;
+      case 'forward':
+        return `The caller pressed ${digit} on their keypad.`;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { Lead } from './database/models/Lead';
+import { ContractLength } from './types/contract';
+import { ConversationStrategy } from './services/lead.service';
+
+/**
+ * Declarative schema for the dynamic_variables sent when a conversation starts.
+ * Each variable names its source (a Lead column or a function of the call
+ * context), an optional formatter, and whether it is required. Every variable
+ * is always sent, falling back to its default, because ElevenLabs closes the
+ * conversation with 1008 when the agent template references a missing one.
+ */
+
+export interface DynamicVariableContext {
+  lead: Lead | null;
+  strategy: ConversationStrategy | null;
+  phoneNumber?: string;          // Caller number, when there is no lead
+  conversationSummary?: string;  // Transcript so far, when resuming after a reconnect
+}
+
+export interface DynamicVariableDefinition {
+  name: string;
+  source: keyof Lead | ((context: DynamicVariableContext) => unknown);
+  format?: (value: any) => string;
+  required?: boolean;  // Must resolve to a non-empty value
+  default?: string;
+}
+
+export interface DynamicVariablesResult {
+  variables: Record<string, string>;
+  missingRequired: string[];  // Required variables that resolved to nothing
+}
+
+// Sent for variables the agent template references but the schema doesn't define
+const UNRESOLVED_VARIABLE_FALLBACK = process.env.UNRESOLVED_VARIABLE_FALLBACK || 'unknown';
+
+// Formatters
+
+export const formatCurrency = (value: number | string): string => `£${Number(value).toFixed(0)}`;
+
+export const formatLongDate = (value: Date | string): string =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const formatShortDate = (value: Date | string): string => new Date(value).toLocaleDateString('en-GB');
+
+export const formatBedrooms = (count: number): string => `${count} bedroom${count > 1 ? 's' : ''}`;
+
+export function formatContractLength(contractLength: ContractLength): string {
+  switch (contractLength) {
+    case ContractLength.LT_SIX_MONTHS:
+      return 'Less than 6 months';
+    case ContractLength.SIX_MONTHS:
+      return '6 months';
+    case ContractLength.TWELVE_MONTHS:
+      return '12 months';
+    case ContractLength.GT_TWELVE_MONTHS:
+      return 'More than 12 months';
+    default:
+      return contractLength;
+  }
+}
+
+export const DYNAMIC_VARIABLE_SCHEMA: DynamicVariableDefinition[] = [
+  // Greeting pieces referenced by the agent's first message
+  { name: 'custom_greeting', source: 'name', format: name => `Hi ${name}!`, default: 'Hello!', required: true },
+  { name: 'custom_intro', source: () => "I'm Charlie calling from Lobby about the property you enquired about. Do you have a moment so I can confirm your details and help you book a viewing?", required: true },
+
+  // Core lead information
+  { name: 'lead_id', source: 'id' },
+  { name: 'lead_name', source: 'name' },
+  { name: 'lead_phone', source: ({ lead, phoneNumber }) => lead?.phone_number || phoneNumber, required: true },
+  { name: 'lead_move_in_date', source: 'move_in_date', format: formatLongDate },
+  { name: 'lead_budget', source: 'budget', format: formatCurrency },
+  { name: 'lead_yearly_wage', source: 'yearly_wage', format: wage => `£${wage}` },
+  { name: 'lead_occupation', source: 'occupation' },
+  { name: 'lead_contract_length', source: 'contract_length', format: formatContractLength },
+
+  // Additional context
+  { name: 'lead_completeness', source: 'completeness_level' },
+  { name: 'lead_email', source: 'email' },
+  { name: 'lead_property_type', source: 'property_type' },
+  { name: 'lead_area', source: 'area' },
+  { name: 'lead_preferred_time', source: 'preferred_time' },
+
+  // Missing fields info
+  { name: 'missing_fields', source: ({ strategy }) => strategy?.missingFields.join(', '), default: 'none' },
+  { name: 'has_missing_fields', source: ({ strategy }) => (strategy?.missingFields.length ? 'yes' : 'no'), default: 'no' },
+
+  // Property details - these help the agent talk about the specific apartment
+  { name: 'property_address', source: 'address_line_1' },
+  { name: 'property_postcode', source: 'postcode' },
+  { name: 'property_bedrooms', source: 'bedroom_count', format: formatBedrooms },
+  { name: 'property_available_from', source: 'availability_at', format: formatShortDate },
+  { name: 'property_monthly_cost', source: 'property_cost', format: formatCurrency },
+
+  // Full context for agents that take it as a single variable
+  { name: 'lead_context', source: ({ lead, strategy }) => buildLeadContext(lead, strategy) },
+  { name: 'conversation_summary', source: ({ conversationSummary }) => conversationSummary }
+];
+
+/**
+ * Resolves every variable in the schema for a call
+ */
+export function buildDynamicVariables(
+  context: DynamicVariableContext,
+  schema: DynamicVariableDefinition[] = DYNAMIC_VARIABLE_SCHEMA
+): DynamicVariablesResult {
+  const variables: Record<string, string> = {};
+  const missingRequired: string[] = [];
+
+  for (const definition of schema) {
+    const raw = typeof definition.source === 'function'
+      ? definition.source(context)
+      : context.lead?.[definition.source];
+
+    const isEmpty = raw === null || raw === undefined || raw === '' || (typeof raw === 'number' && raw === 0);
+    let value = isEmpty ? '' : definition.format ? definition.format(raw) : String(raw);
+    if (!value && definition.default !== undefined) {
+      value = definition.default;
+    }
+
+    if (definition.required && !value) {
+      missingRequired.push(definition.name);
+    }
+    variables[definition.name] = value;
+  }
+
+  return { variables, missingRequired };
+}
+
+/**
+ * Lists the variables an agent template references that the built set doesn't provide
+ */
+export function findUnresolvedVariables(variables: Record<string, string>, referencedVariables: string[]): string[] {
+  return referencedVariables.filter(name => !(name in variables));
+}
+
+/**
+ * Gives each unresolved variable the neutral UNRESOLVED_VARIABLE_FALLBACK value,
+ * so the agent doesn't leave a gap (e.g. "Hi , ...") and ElevenLabs doesn't
+ * reject the conversation. Returns the names that were filled.
+ */
+export function fillUnresolvedVariables(variables: Record<string, string>, referencedVariables: string[]): string[] {
+  const unresolved = findUnresolvedVariables(variables, referencedVariables);
+  for (const name of unresolved) {
+    variables[name] = UNRESOLVED_VARIABLE_FALLBACK;
+  }
+  return unresolved;
+}
+
+/**
+ * Describes lead columns changed mid-call, as a contextual update for the agent,
+ * using the same variables and formatting the conversation started with
+ */
+export function describeLeadUpdate(lead: Lead, changedColumns: string[], schema: DynamicVariableDefinition[] = DYNAMIC_VARIABLE_SCHEMA): string {
+  const changed = schema.filter(definition =>
+    typeof definition.source === 'string' && changedColumns.includes(definition.source)
+  );
+  const { variables } = buildDynamicVariables({ lead, strategy: null }, changed);
+  const details = Object.entries(variables).map(([name, value]) => `${name}: ${value || '(none)'}`);
+
+  return `The lead's details have just been updated: ${details.join('; ')}. Use these from now on instead of what you were given at the start of the call.`;
+}
+
+/**
+ * Summarises the lead and how the agent should approach the call
+ */
+export function buildLeadContext(lead: Lead | null, strategy: ConversationStrategy | null): string {
+  if (!lead || !strategy) return '';
+  
+  const { completenessLevel, missingFields, existingData } = strategy;
+  
+  let context = `LEAD CONTEXT:
+Lead ID: ${lead.id}
+Completeness: ${completenessLevel}
+Phone Number: ${lead.phone_number}
+
+`;
+  
+  // Add existing data
+  if (existingData.name) context += `Name: ${existingData.name}\n`;
+  if (existingData.moveInDate) context += `Move-in Date: ${existingData.moveInDate}\n`;
+  if (existingData.budget) context += `Budget: ${existingData.budget} monthly\n`;
+  if (existingData.yearlyWage) context += `Annual Income: ${existingData.yearlyWage}\n`;
+  if (existingData.occupation) context += `Occupation: ${existingData.occupation}\n`;
+  if (existingData.contractLength) context += `Contract Length: ${existingData.contractLength}\n`;
+  
+  // Add property details if available
+  if (lead.address_line_1 || lead.postcode || lead.bedroom_count || lead.property_cost) {
+    context += `\nPROPERTY DETAILS:\n`;
+    if (lead.address_line_1) context += `Address: ${lead.address_line_1}\n`;
+    if (lead.postcode) context += `Postcode: ${lead.postcode}\n`;
+    if (lead.bedroom_count) context += `Bedrooms: ${lead.bedroom_count}\n`;
+    if (lead.availability_at) {
+      const availDate = new Date(lead.availability_at);
+      context += `Available From: ${availDate.toLocaleDateString('en-GB')}\n`;
+    }
+    if (lead.property_cost) context += `Monthly Rent: £${lead.property_cost}\n`;
+  }
+  
+  // Add missing fields
+  if (missingFields.length > 0) {
+    context += `\nMISSING REQUIRED FIELDS: ${missingFields.join(', ')}\n`;
+  }
+  
+  // Add conversation instructions based on completeness
+  context += `\nCONVERSATION STRATEGY:
+  
+IMPORTANT: After your initial greeting and request to confirm details, WAIT for the person to give permission before proceeding. If they say yes, proceed with confirming details. If they're busy, offer to call back later.
+
+VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekdays (Monday-Friday). Do not offer or accept viewing times outside these hours.
+
+`;
+  if (completenessLevel === 'COMPLETE') {
+    context += `- This lead has all required information
+- Once they agree to proceed, quickly confirm their details: move-in date, budget, area
+- Then immediately offer viewing times
+- Be efficient and professional`;
+  } else if (completenessLevel === 'PARTIAL') {
+    context += `- This lead has some information
+- Once they agree to proceed, confirm existing data first
+- Then collect missing fields: ${missingFields.join(', ')}
+- Ask for missing data strategically before booking`;
+  } else {
+    context += `- This lead has minimal information
+- Once they agree to proceed, use standard qualification flow
+- Collect all required fields systematically
+- Essential: move-in date, budget, area, occupation`;
+  }
+  
+  return context;
+}
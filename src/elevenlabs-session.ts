@@ -1,14 +1,67 @@
 import WebSocket from 'ws';
-import { TwilioMediaMessage } from './types/twilio';
-import { LeadService } from './services/lead.service';
+import { TwilioMediaMessage, TransferTarget } from './types/twilio';
+import { LeadService, ConversationStrategy } from './services/lead.service';
 import { Lead } from './database/models/Lead';
-import { ContractLength } from './types/contract';
+import { ToolRegistry } from './tool-registry';
+import { TranscriptService } from './services/transcript.service';
+import { CallService } from './services/call.service';
+import { ReconnectPolicy } from './reconnect-policy';
+import { PhraseCache } from './phrase-cache';
+import { ConnectionPool } from './connection-pool';
+import { ConversationConfigBuilder } from './conversation-config';
+import { AgentTemplate, referencedVariablesFor } from './agent-template';
+import { buildDynamicVariables, buildLeadContext, describeLeadUpdate, fillUnresolvedVariables } from './dynamic-variables';
+import { PreConnectBuffer } from './audio/preconnect-buffer';
+import { decodeMulaw } from './audio/g711';
+import { toInt16Samples } from './audio/pcm';
+import { VoiceActivityDetector, createVoiceActivityDetector } from './audio/vad';
+import { OutboundAudioScheduler, PlaybackPosition } from './audio/outbound-scheduler';
+import { EchoGuard } from './audio/echo-guard';
+import { CallRecorder } from './audio/call-recorder';
+import { InboundAudioConverter, OutboundAudioConverter, parseAudioFormat, formatName } from './audio/formats';
+import { ClientToolCall } from './types/tools';
+import { DtmfRouter, DtmfInput } from './dtmf-router';
+import { CallWatchdog, WatchdogRule } from './call-watchdog';
+import { extractCallOutcome, ToolCallRecord } from './outcome-extractor';
+import { SessionRegistry } from './session-registry';
+import { SupervisorHub, CallEventType } from './supervisor-hub';
+import { TwilioHandler } from './twilio-handler';
+import { ConversationConfig } from './types/elevenlabs';
+import { isValidStreamToken } from './middleware/auth';
 
 interface ElevenLabsMessage {
   type: string;
   [key: string]: any;
 }
 
+interface TranscriptLine {
+  speaker: 'user' | 'agent';
+  text: string;
+  interrupted?: boolean;
+}
+
+// Agent PCM is reduced by 10% before μ-law encoding to prevent distortion
+const OUTBOUND_PCM_GAIN = 0.9;
+
+// ElevenLabs vad_score thresholds used when local VAD is disabled
+const REMOTE_VAD_START_SCORE = 0.8;
+const REMOTE_VAD_STOP_SCORE = 0.3;
+
+// Line echo of the agent's voice can still arrive this long after playback stops
+const ECHO_TAIL_MS = parseInt(process.env.BARGE_IN_ECHO_TAIL_MS || '300');
+
+const HOLDING_PHRASE = 'Sorry, bear with me one moment.';
+const APOLOGY_PHRASE = "I'm really sorry, we're having technical difficulties. We'll call you back shortly. Goodbye!";
+const OPT_OUT_PHRASE = "No problem, we won't contact you again. Sorry to have bothered you. Goodbye!";
+const WATCHDOG_PHRASES: Record<WatchdogRule, string> = {
+  dead_air_timeout: "I can't hear anyone on the line, so I'll let you go. Feel free to call us back any time. Goodbye!",
+  max_duration_reached: "I'm afraid we've run out of time for this call. A member of the team will follow up with you. Goodbye!"
+};
+
+// Once the call should end, hang up after the agent has been quiet this long (it may still be saying goodbye)
+const END_CALL_GRACE_MS = parseInt(process.env.END_CALL_GRACE_MS || '2000');
+const END_CALL_MAX_WAIT_MS = parseInt(process.env.END_CALL_MAX_WAIT_MS || '15000');
+
 interface ConversationMetrics {
   callStartTime: number;
   firstTokenTime?: number;
@@ -17,6 +70,8 @@ interface ConversationMetrics {
   totalAudioBytes: number;
   lastResponseTime?: number;
   totalTokens: number;
+  elevenLabsReadyTime?: number;
+  usedPooledConnection: boolean;
 }
 
 export class ElevenLabsSession {
@@ -24,35 +79,122 @@ export class ElevenLabsSession {
   private twilioWs: WebSocket;
   private callSid: string = '';
   private streamSid: string = '';
+  private conversationId: string = '';
   private phoneNumber: string = '';
+  private direction: 'inbound' | 'outbound' = 'inbound';
+  private callRecordSaved: boolean = false;
   private lead: Lead | null = null;
-  private conversationStrategy: any = null;
+  private conversationStrategy: ConversationStrategy | null = null;
   private isConnected: boolean = false;
+  private isConversationReady: boolean = false;
+  private preConnectBuffer: PreConnectBuffer = new PreConnectBuffer();
+  // Replaced once conversation_initiation_metadata reports the negotiated formats
+  private inboundConverter: InboundAudioConverter = new InboundAudioConverter(parseAudioFormat('pcm_16000'));
+  private outboundConverter: OutboundAudioConverter = new OutboundAudioConverter(parseAudioFormat('pcm_16000'), OUTBOUND_PCM_GAIN);
+  private inboundScratch: Int16Array = new Int16Array(160);
   private hasStartedConversation: boolean = false;
   private lastConnectionWarning?: number;
   private metrics: ConversationMetrics = {
     callStartTime: 0,
     totalResponses: 0,
     totalAudioBytes: 0,
-    totalTokens: 0
+    totalTokens: 0,
+    usedPooledConnection: false
   };
-  private audioQueue: string[] = [];
-  private isProcessingAudio: boolean = false;
-  private outputFormat: string = 'pcm_8000'; // Track the actual output format
   private isUserSpeaking: boolean = false;
   private consecutiveSilentChunks: number = 0;
   private silenceThreshold: number = 15; // Number of silent chunks before user is considered not speaking
   private speechStartTime: number = 0;
   private consecutiveSpeechFrames: number = 0;
   private minSpeechFrames: number = 8; // Require 8 consecutive frames of speech before triggering
+  private vad: VoiceActivityDetector | null = createVoiceActivityDetector();
+  private outboundAudio: OutboundAudioScheduler = new OutboundAudioScheduler({
+    sendMedia: frame => this.sendAudioToTwilio(frame),
+    sendMark: name => this.sendMarkToTwilio(name)
+  });
+  private echoGuard: EchoGuard = new EchoGuard();
+  private isBargeInSuppressed: boolean = false;
+  private awaitingResponseSince?: number;  // When the caller last stopped speaking, until the agent answers
+  private recorder: CallRecorder | null = null;
+  private toolRegistry: ToolRegistry = ToolRegistry.createDefault();
+  private toolCalls: ToolCallRecord[] = [];
+  private hasBookedViewing: boolean = false;  // Only a booking made on this call counts towards its outcome
+  private dtmfRouter: DtmfRouter = DtmfRouter.fromEnv();
+  private dtmfInputs: DtmfInput[] = [];
+  private watchdog: CallWatchdog = new CallWatchdog({
+    isCallerSpeaking: () => this.isUserSpeaking,
+    // Waiting on ElevenLabs isn't the caller's silence
+    isAgentSpeaking: () => this.outboundAudio.isPlayingWithin(0) || this.isReconnecting || !this.isConversationReady,
+    onNudge: silentMs => this.nudgeSilentCaller(silentMs),
+    onLimitReached: rule => this.endCallOnLimit(rule)
+  });
+  private endCallReason?: string;
+  private isMachineAnswered: boolean = false;
+  private agentFinishTimer?: NodeJS.Timeout;
+  private agentFinishAction?: () => void;
+  private transcript: TranscriptLine[] = [];
+  private reconnectPolicy: ReconnectPolicy = new ReconnectPolicy();
+  private reconnectTimer?: NodeJS.Timeout;
+  private isReconnecting: boolean = false;
+  private isShuttingDown: boolean = false;
+  // Set when the stream's start message fails the token check; nothing after it is handled
+  private isStreamRejected: boolean = false;
 
   constructor(twilioWs: WebSocket) {
     this.twilioWs = twilioWs;
     console.log('🤖 Creating new ElevenLabsSession - waiting for Twilio start event');
   }
 
-  private async initializeElevenLabsConnection(): Promise<void> {
+  get leadId(): number | undefined {
+    return this.lead?.id;
+  }
+
+  /**
+   * Sends text the agent should take into account without it being said aloud.
+   * Returns false when there is no conversation to send it to.
+   */
+  sendContextualUpdate(text: string): boolean {
+    if (this.elevenLabsWs?.readyState !== WebSocket.OPEN || !this.isConversationReady) {
+      return false;
+    }
+    
+    this.elevenLabsWs.send(JSON.stringify({
+      type: 'contextual_update',
+      text
+    }));
+    return true;
+  }
+
+  /**
+   * Swaps in a lead updated elsewhere (e.g. by the CRM) mid-call and tells the agent what changed
+   */
+  applyLeadUpdate(lead: Lead, changedColumns: string[]): void {
+    this.lead = lead;
+    this.conversationStrategy = LeadService.generateConversationStrategy(lead);
+    
+    if (changedColumns.length === 0) return;
+    
+    if (this.sendContextualUpdate(describeLeadUpdate(lead, changedColumns))) {
+      console.log(`🔁 Lead ${lead.id} updated mid-call (${changedColumns.join(', ')}) - agent informed`);
+    } else {
+      console.warn(`⚠️  Conversation not ready - lead ${lead.id} update not forwarded to the agent`);
+    }
+  }
+
+  private async initializeElevenLabsConnection(isReconnect: boolean = false, pooledWs: WebSocket | null = null): Promise<void> {
     try {
+      // Adopt the socket opened while the phone was ringing if it is still usable
+      if (pooledWs && pooledWs.readyState === WebSocket.OPEN) {
+        console.log(`♻️  Adopting pre-warmed ElevenLabs connection for ${this.callSid}`);
+        this.elevenLabsWs = pooledWs;
+        this.isConnected = true;
+        this.metrics.usedPooledConnection = true;
+        this.metrics.elevenLabsReadyTime = Date.now();
+        this.setupElevenLabsHandlers();
+        await this.sendConversationInitiation(isReconnect);
+        return;
+      }
+
       const connectionStartTime = Date.now();
       const agentId = process.env.ELEVENLABS_AGENT_ID;
       const apiKey = process.env.ELEVENLABS_API_KEY;
@@ -65,10 +207,10 @@ export class ElevenLabsSession {
       console.log(`🔗 Agent ID: ${agentId}`);
       console.log(`🔑 API Key: ${apiKey.substring(0, 10)}...${apiKey.substring(apiKey.length - 4)}`);
       
-      const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}&output_format=ulaw_8000`;
+      // Audio formats come from the agent's configuration and are negotiated from conversation_initiation_metadata
+      const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}`;
       console.log(`🌐 WebSocket URL: ${wsUrl}`);
       
-      // Connect to ElevenLabs WebSocket with μ-law 8kHz output (perfect for Twilio!)
       // Note: ElevenLabs uses 'xi-api-key' header, not 'Authorization: Bearer'
       this.elevenLabsWs = new WebSocket(
         wsUrl,
@@ -89,8 +231,8 @@ export class ElevenLabsSession {
           console.error('   1. Your ElevenLabs API key is valid');
           console.error('   2. Your Agent ID is correct');
           console.error('   3. Your network allows WebSocket connections');
+          // Closing triggers the reconnect policy via the close handler
           this.elevenLabsWs?.close();
-          throw new Error('ElevenLabs connection timeout');
         }
       }, 10000);
 
@@ -102,127 +244,10 @@ export class ElevenLabsSession {
         console.log(`✅ Connected to ElevenLabs ConvAI in ${connectionTime}ms`);
         this.isConnected = true;
         
-        // Prepare initialization data with lead context
-        const initData: any = {
-          type: 'conversation_initiation_client_data'
-        };
-        
-        // Add lead context if available
-        if (this.lead) {
-          const conversationContext = this.buildLeadContext();
-          
-          // Log the full context for debugging
-          console.log('📋 Full lead context being sent:');
-          console.log(conversationContext);
-          
-          // Use dynamic_variables to pass lead data (as per ElevenLabs docs)
-          // NOTE: Your agent's prompt must reference these variables using {{variable_name}} syntax
-          // Example: "You are talking to {{lead_name}} who has a budget of {{lead_budget}}"
-          
-          // Get missing fields from conversation strategy
-          const missingFields = this.conversationStrategy?.missingFields || [];
-          const existingData = this.conversationStrategy?.existingData || {};
-          
-          // Format move-in date nicely
-          let formattedMoveInDate = '';
-          if (this.lead.move_in_date) {
-            const date = new Date(this.lead.move_in_date);
-            const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long', year: 'numeric' };
-            formattedMoveInDate = date.toLocaleDateString('en-GB', options);
-          }
-          
-          // Ensure all variables are strings, not undefined
-          const sanitizeVariable = (value: any): string => {
-            if (value === null || value === undefined) return '';
-            return String(value);
-          };
-          
-          // Create custom variables that your agent is now expecting
-          const custom_greeting = this.lead.name 
-            ? `Hi ${this.lead.name}!` 
-            : 'Hello!';
-          
-          // Professional intro that asks permission to proceed
-          const custom_intro = `I'm Charlie calling from Lobby about the property you enquired about. Do you have a moment so I can confirm your details and help you book a viewing?`;
-          
-          initData.dynamic_variables = {
-            // Your agent is expecting these custom variables
-            custom_greeting: custom_greeting,
-            custom_intro: custom_intro,
-            // Core lead information - ALWAYS provide these even if empty
-            lead_id: sanitizeVariable(this.lead.id),
-            lead_name: sanitizeVariable(this.lead.name),
-            lead_phone: sanitizeVariable(this.lead.phone_number),
-            lead_move_in_date: sanitizeVariable(formattedMoveInDate),
-            lead_budget: this.lead.budget ? `£${Number(this.lead.budget).toFixed(0)}` : '',
-            lead_yearly_wage: this.lead.yearly_wage ? `£${this.lead.yearly_wage}` : '',
-            lead_occupation: sanitizeVariable(this.lead.occupation),
-            lead_contract_length: this.lead.contract_length ? this.getContractLengthDisplay(this.lead.contract_length) : '',
-            
-            // Additional context
-            lead_completeness: sanitizeVariable(this.lead.completeness_level),
-            lead_email: sanitizeVariable(this.lead.email),
-            lead_property_type: sanitizeVariable(this.lead.property_type),
-            lead_area: sanitizeVariable(this.lead.area),
-            lead_preferred_time: sanitizeVariable(this.lead.preferred_time),
-            
-            // Missing fields info
-            missing_fields: missingFields.join(', ') || 'none',
-            has_missing_fields: missingFields.length > 0 ? 'yes' : 'no',
-            
-            // Property details - these help the agent talk about the specific apartment
-            property_address: sanitizeVariable(this.lead.address_line_1),
-            property_postcode: sanitizeVariable(this.lead.postcode),
-            property_bedrooms: this.lead.bedroom_count ? `${this.lead.bedroom_count} bedroom${this.lead.bedroom_count > 1 ? 's' : ''}` : '',
-            property_available_from: this.lead.availability_at ? new Date(this.lead.availability_at).toLocaleDateString('en-GB') : '',
-            property_monthly_cost: this.lead.property_cost ? `£${Number(this.lead.property_cost).toFixed(0)}` : '',
-            
-            // Full context for fallback
-            lead_context: conversationContext || '',
-            
-            // ElevenLabs conditional template support
-            // Based on the error and your template structure, try different approaches
-            
-            // Approach 1: Boolean values
-            if_lead_name: !!this.lead.name,
-            'if': true,  // Always true to enable conditionals
-            'else': true,  // Always true to enable else branches
-            
-            // Approach 2: The template might expect these to contain the actual content
-            // if_lead_name: this.lead.name ? `Hi ${this.lead.name}!` : 'Hello!',
-            
-            // Approach 3: Simple string flags
-            has_lead_name: this.lead.name ? 'true' : 'false',
-            
-            // Try to match exactly what the template engine might expect
-            'true': 'true',
-            'false': 'false'
-          };
-          
-          console.log('📋 Initializing conversation with lead context:', {
-            leadId: this.lead.id,
-            completeness: this.lead.completeness_level,
-            hasName: !!this.lead.name,
-            missingFields: missingFields
-          });
-          
-          console.log('📊 Dynamic variables being sent to ElevenLabs:');
-          Object.entries(initData.dynamic_variables).forEach(([key, value]) => {
-            console.log(`   ${key}: ${value}`);
-          });
-          
-          console.log('\n⚠️  Note: If you get "Missing required dynamic variables" errors,');
-          console.log('   your agent\'s first message might be using conditional logic like:');
-          console.log('   {{if lead_name}}Hello {{lead_name}}!{{else}}Hello!{{/if}}');
-          console.log('   Consider simplifying it to: "Hello! I\'m here to help you find your perfect property."');
-          console.log('   Or update it in the ElevenLabs dashboard to avoid conditionals.\n');
-        }
-        
-        // Log the full initialization data
-        console.log('📤 Full initialization data:', JSON.stringify(initData, null, 2));
-        
-        // Send initialization data
-        this.elevenLabsWs!.send(JSON.stringify(initData));
+        this.metrics.elevenLabsReadyTime = Date.now();
+        this.sendConversationInitiation(isReconnect).catch(error => {
+          console.error('❌ Error starting ElevenLabs conversation:', error);
+        });
       });
 
     } catch (error) {
@@ -231,8 +256,87 @@ export class ElevenLabsSession {
     }
   }
 
+  private async sendConversationInitiation(isReconnect: boolean): Promise<void> {
+    const conversationContext = buildLeadContext(this.lead, this.conversationStrategy);
+    
+    // First message, prompt additions, language and voice for this lead and campaign
+    const configOverride = await ConversationConfigBuilder.getInstance().build(this.lead, conversationContext, isReconnect);
+    
+    // Your agent's prompt and first message reference these using {{variable_name}} syntax
+    const { variables, missingRequired } = buildDynamicVariables({
+      lead: this.lead,
+      strategy: this.conversationStrategy,
+      phoneNumber: this.phoneNumber,
+      conversationSummary: isReconnect ? this.buildTranscriptSummary() : undefined
+    });
+    
+    if (missingRequired.length > 0) {
+      console.warn(`⚠️  Required dynamic variables without a value: ${missingRequired.join(', ')}`);
+    }
+    await this.fillUnresolvedVariables(variables, configOverride);
+    
+    const initData: any = {
+      type: 'conversation_initiation_client_data',
+      dynamic_variables: variables
+    };
+    if (configOverride) {
+      initData.conversation_config_override = configOverride;
+    }
+    
+    if (this.lead) {
+      // Log the full context for debugging
+      console.log('📋 Full lead context being sent:');
+      console.log(conversationContext);
+      
+      console.log('📋 Initializing conversation with lead context:', {
+        leadId: this.lead.id,
+        completeness: this.lead.completeness_level,
+        hasName: !!this.lead.name,
+        missingFields: this.conversationStrategy?.missingFields || []
+      });
+    }
+    
+    console.log('📊 Dynamic variables being sent to ElevenLabs:');
+    Object.entries(variables).forEach(([key, value]) => {
+      console.log(`   ${key}: ${value}`);
+    });
+    
+    // Log the full initialization data
+    console.log('📤 Full initialization data:', JSON.stringify(initData, null, 2));
+    
+    // The socket may have dropped while the override was being built
+    if (this.elevenLabsWs?.readyState !== WebSocket.OPEN) return;
+    
+    // Send initialization data
+    this.elevenLabsWs.send(JSON.stringify(initData));
+    
+    // Tell the resumed conversation what has already been said
+    if (isReconnect && this.transcript.length > 0) {
+      this.elevenLabsWs.send(JSON.stringify({
+        type: 'contextual_update',
+        text: `The call audio dropped briefly and has now been restored. Do not greet the caller again; continue from where the conversation left off.\n\nConversation so far:\n${this.buildTranscriptSummary()}`
+      }));
+    }
+  }
+
+  /**
+   * Checks the variables against those the agent template references, and sends
+   * a neutral fallback for any the schema doesn't cover rather than having
+   * ElevenLabs reject the conversation
+   */
+  private async fillUnresolvedVariables(variables: Record<string, string>, configOverride: ConversationConfig | null): Promise<void> {
+    const template = await AgentTemplate.getInstance().get();
+    if (!template) return;
+    
+    const unresolved = fillUnresolvedVariables(variables, referencedVariablesFor(template, configOverride));
+    if (unresolved.length > 0) {
+      console.error(`❌ Agent template references dynamic variables that aren't in the schema: ${unresolved.join(', ')} - sending a fallback value`);
+    }
+  }
+
   private setupElevenLabsHandlers(): void {
     if (!this.elevenLabsWs) return;
+    const ws = this.elevenLabsWs;
 
     this.elevenLabsWs.on('message', (data: WebSocket.Data) => {
       try {
@@ -249,25 +353,149 @@ export class ElevenLabsSession {
       this.isConnected = false;
     });
 
-          this.elevenLabsWs.on('close', (code: number, reason: Buffer) => {
-        this.isConnected = false;
-        const reasonStr = reason.toString();
-        console.log(`🔌 Disconnected from ElevenLabs ConvAI - Code: ${code}, Reason: ${reasonStr}`);
-        
-        // Special handling for missing dynamic variables error
-        if (code === 1008 && reasonStr.includes('Missing required dynamic variables')) {
-          console.error('\n❌ TEMPLATE ERROR: Your agent\'s first message uses conditional logic.');
-          console.error('   The ElevenLabs template engine couldn\'t find the required control variables.');
-          console.error('\n   SOLUTION: Edit your agent in the ElevenLabs dashboard:');
-          console.error('   1. Go to your agent settings');
-          console.error('   2. Find the "First Message" field');
-          console.error('   3. Remove any conditional logic (if/else statements)');
-          console.error('   4. Use a simple message like: "Hello! I\'m Charlie from Lobby..."');
-          console.error('\n   The current template appears to be using:');
-          console.error('   {{if lead_name}}...personalized greeting...{{else}}...generic greeting...{{/if}}');
-          console.error('   This syntax requires special variables that are hard to provide correctly.\n');
-        }
+    this.elevenLabsWs.on('close', (code: number, reason: Buffer) => {
+      // Ignore late events from a socket that has already been replaced
+      if (ws !== this.elevenLabsWs) return;
+      
+      this.isConnected = false;
+      this.isConversationReady = false;
+      const reasonStr = reason.toString();
+      console.log(`🔌 Disconnected from ElevenLabs ConvAI - Code: ${code}, Reason: ${reasonStr}`);
+      
+      if (code === 1008 && /override/i.test(reasonStr)) {
+        console.error('❌ ElevenLabs rejected the conversation config override - allow overrides in the agent\'s Security settings or set ELEVENLABS_CONFIG_OVERRIDES=false');
+      }
+      
+      if (this.shouldReconnect(code)) {
+        this.scheduleReconnect();
+      } else if (code === 1000 && !this.isShuttingDown) {
+        // ElevenLabs closes normally when the agent ends the conversation
+        this.requestEndCall('agent_ended_call');
+      } else if (!this.isShuttingDown && !this.endCallReason && this.callSid) {
+        // The agent isn't coming back, so don't leave the caller in silence
+        this.endCallOnAgentFailure(code === 1008 ? 'agent_config_rejected' : 'agent_connection_lost');
+      }
+    });
+  }
+
+  private shouldReconnect(code: number): boolean {
+    // 1000 is a normal end of conversation, 1008 a configuration error that won't fix itself
+    return !this.isShuttingDown && !this.endCallReason && !!this.callSid && code !== 1000 && code !== 1008;
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.reconnectPolicy.nextDelay();
+    
+    if (delay === null) {
+      this.giveUpReconnecting();
+      return;
+    }
+    
+    if (!this.isReconnecting) {
+      this.isReconnecting = true;
+      this.clearTwilioAudio();
+      this.playPhrase(HOLDING_PHRASE);
+    }
+    
+    console.log(`🔄 Reconnecting to ElevenLabs in ${delay}ms (attempt ${this.reconnectPolicy.attempts}/${this.reconnectPolicy.maxAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.initializeElevenLabsConnection(true);
+    }, delay);
+  }
+
+  private async giveUpReconnecting(): Promise<void> {
+    console.error(`❌ Could not reconnect to ElevenLabs after ${this.reconnectPolicy.maxAttempts} attempts - ending call`);
+    await this.endCallOnAgentFailure('agent_connection_lost');
+  }
+
+  /**
+   * Ends a live call the agent can no longer take part in: the caller hears an
+   * apology, the call is hung up and the lead marked failed
+   */
+  private async endCallOnAgentFailure(reason: string): Promise<void> {
+    this.isShuttingDown = true;
+    this.endCallReason = reason;
+    this.watchdog.stop();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    
+    if (this.lead) {
+      LeadService.updateLeadStatus(this.lead.id, 'failed', this.endCallReason).catch(error => {
+        console.error('❌ Error updating lead status:', error);
+      });
+    }
+    
+    await this.playPhrase(APOLOGY_PHRASE);
+    this.hangUpAfterPlayback();
+  }
+
+  /**
+   * Completes the Twilio call once the agent has finished speaking
+   */
+  private hangUpAfterPlayback(): void {
+    if (!this.callSid) return;
+
+    this.afterAgentFinishes(() => {
+      this.isShuttingDown = true;
+      CallService.hangupCall(this.callSid).catch(error => {
+        console.error('❌ Error hanging up call:', error);
       });
+    });
+  }
+
+  /**
+   * Runs the action once nothing is left to play and no new agent audio has
+   * arrived for END_CALL_GRACE_MS (or END_CALL_MAX_WAIT_MS has passed). Only
+   * one action waits at a time: a later one replaces it and keeps its timing.
+   */
+  private afterAgentFinishes(action: () => void): void {
+    if (this.twilioWs.readyState !== WebSocket.OPEN) return;
+    
+    this.agentFinishAction = action;
+    if (this.agentFinishTimer) return;
+
+    const requestedAt = Date.now();
+    const check = () => {
+      const now = Date.now();
+      const quietSince = Math.max(requestedAt, this.metrics.lastResponseTime || 0);
+      const isFinished = !this.outboundAudio.isPlayingWithin(0) && now - quietSince >= END_CALL_GRACE_MS;
+      
+      if (!isFinished && now - requestedAt < END_CALL_MAX_WAIT_MS) {
+        this.agentFinishTimer = setTimeout(check, 250);
+        return;
+      }
+      
+      if (!isFinished) {
+        console.warn(`⚠️  Agent still speaking after ${END_CALL_MAX_WAIT_MS}ms - going ahead anyway`);
+      }
+      const pendingAction = this.agentFinishAction;
+      this.agentFinishTimer = undefined;
+      this.agentFinishAction = undefined;
+      pendingAction?.();
+    };
+    
+    this.agentFinishTimer = setTimeout(check, 250);
+  }
+
+  /**
+   * Plays a canned phrase to the caller, resolving with its duration in milliseconds
+   */
+  private async playPhrase(text: string): Promise<number> {
+    const clip = await PhraseCache.getInstance().getClip(text);
+    if (!clip || this.twilioWs.readyState !== WebSocket.OPEN) return 0;
+    
+    // Already μ-law 8kHz, one byte per sample
+    this.outboundAudio.enqueue(clip);
+    
+    return Math.round(clip.length / 8);
+  }
+
+  private buildTranscriptSummary(): string {
+    return this.transcript
+      .slice(-12)
+      .map(line => `${line.speaker === 'user' ? 'Caller' : 'Agent'}: ${line.text}${line.interrupted ? ' (interrupted)' : ''}`)
+      .join('\n');
   }
 
   private handleElevenLabsMessage(message: ElevenLabsMessage): void {
@@ -276,14 +504,26 @@ export class ElevenLabsSession {
     switch (message.type) {
       case 'conversation_initiation_metadata':
         console.log('✅ ElevenLabs conversation initialized');
-        const outputFormat = message.conversation_initiation_metadata_event?.agent_output_audio_format;
-        console.log(`📊 Agent output format: ${outputFormat}`);
-        console.log(`🎤 User input format: ${message.conversation_initiation_metadata_event?.user_input_audio_format}`);
+        this.negotiateAudioFormats(
+          message.conversation_initiation_metadata_event?.user_input_audio_format,
+          message.conversation_initiation_metadata_event?.agent_output_audio_format
+        );
+        this.conversationId = message.conversation_initiation_metadata_event?.conversation_id || '';
+        console.log(`🆔 Conversation ID: ${this.conversationId}`);
+        if (this.conversationId && this.callSid) {
+          CallService.updateCall(this.callSid, { conversation_id: this.conversationId }).catch(error => {
+            console.error('❌ Error saving conversation ID:', error);
+          });
+        }
         
-        // Store the actual output format
-        if (outputFormat) {
-          this.outputFormat = outputFormat;
+        if (this.isReconnecting) {
+          console.log(`✅ Reconnected to ElevenLabs after ${this.reconnectPolicy.attempts} attempt(s)`);
+          this.isReconnecting = false;
         }
+        this.reconnectPolicy.reset();
+        
+        this.isConversationReady = true;
+        this.flushPreConnectBuffer();
         break;
 
       case 'ping':
@@ -305,16 +545,19 @@ export class ElevenLabsSession {
             this.metrics.firstTokenTime = timestamp;
             const ttft = timestamp - this.metrics.callStartTime;
             console.log(`🚀 TTFT (Time To First Token): ${ttft}ms`);
+            this.publishEvent('latency', { metric: 'ttft', ms: ttft });
           }
 
           // Track audio bytes and update last response time
           const audioBytes = Buffer.from(message.audio_event.audio_base_64, 'base64').length;
           this.metrics.totalAudioBytes += audioBytes;
           this.metrics.lastResponseTime = timestamp;
+          if (this.awaitingResponseSince) {
+            this.publishEvent('latency', { metric: 'response', ms: timestamp - this.awaitingResponseSince });
+            this.awaitingResponseSince = undefined;
+          }
           
-          // Queue audio for processing
-          this.audioQueue.push(message.audio_event.audio_base_64);
-          this.processAudioQueue();
+          this.forwardAgentAudio(message.audio_event.audio_base_64);
         }
         break;
 
@@ -324,20 +567,21 @@ export class ElevenLabsSession {
         // Estimate tokens (rough approximation: ~4 characters per token)
         const responseText = message.agent_response_event?.agent_response || '';
         this.metrics.totalTokens += Math.ceil(responseText.length / 4);
+        this.recordTurn('agent', responseText);
         break;
 
       case 'user_transcript':
         console.log('👤 User:', message.user_transcription_event?.user_transcript);
+        this.recordTurn('user', message.user_transcription_event?.user_transcript || '');
+        this.watchdog.recordCallerActivity();
         break;
 
       case 'interruption':
         console.log('🛑 Interruption detected - clearing audio');
-        // Clear all audio immediately
-        this.audioQueue = [];
-        this.isProcessingAudio = false; // Stop processing immediately
+        this.outboundConverter.reset();
         
-        // Tell Twilio to clear its audio buffer
-        this.clearTwilioAudio();
+        // Drop unsent audio and tell Twilio to clear its buffer
+        this.recordAgentInterrupted(this.clearTwilioAudio());
         break;
 
       case 'ping':
@@ -357,97 +601,348 @@ export class ElevenLabsSession {
         if (message.vad_score_event?.vad_score > 0.8) {
           console.log('🎤 User is speaking');
         }
+        
+        // With local VAD disabled, ElevenLabs' score drives speech tracking (it handles barge-in itself)
+        if (!this.vad) {
+          this.updateRemoteSpeechState(message.vad_score_event?.vad_score || 0);
+        }
+        break;
+
+      case 'client_tool_call':
+        if (message.client_tool_call) {
+          this.handleClientToolCall(message.client_tool_call);
+        }
         break;
     }
   }
 
-  private async processAudioQueue(): Promise<void> {
-    if (this.isProcessingAudio || this.audioQueue.length === 0) return;
+  /**
+   * Replays caller audio buffered while ElevenLabs was connecting
+   */
+  private flushPreConnectBuffer(): void {
+    const frames = this.preConnectBuffer.drain();
+    if (frames.length === 0 || !this.elevenLabsWs) return;
     
-    this.isProcessingAudio = true;
+    const replayMs = frames.reduce((total, frame) => total + frame.length, 0) / 8;
+    console.log(`⏩ Replaying ${replayMs}ms of buffered caller audio (${this.preConnectBuffer.discardedMs}ms discarded so far)`);
     
-    while (this.audioQueue.length > 0) {
-      const audioBase64 = this.audioQueue.shift()!;
-      const audioBuffer = Buffer.from(audioBase64, 'base64');
-      
-      // Check if we need to convert based on the output format
-      if (this.outputFormat.includes('ulaw')) {
-        // If ElevenLabs sends μ-law, send directly to Twilio - no conversion needed!
-        // Log quality occasionally
-        if (Math.random() < 0.01) {
-          console.log(`📊 Agent Audio Quality - Direct μ-law passthrough (${audioBuffer.length} bytes)`);
-        }
-        this.sendAudioToTwilio(audioBase64);
-      } else if (this.outputFormat.includes('pcm')) {
-        // Convert PCM to μ-law for Twilio
-        // Log PCM quality before conversion
-        if (Math.random() < 0.01) {
-          const pcmSamples = new Int16Array(audioBuffer.buffer, audioBuffer.byteOffset, audioBuffer.length / 2);
-          this.logAudioQuality('Agent Audio (PCM)', pcmSamples);
-        }
-        const ulawBuffer = this.convertPCMToMulaw(audioBuffer);
-        const ulawBase64 = ulawBuffer.toString('base64');
-        this.sendAudioToTwilio(ulawBase64);
-      } else {
-        console.warn(`⚠️ Unknown output format: ${this.outputFormat}, assuming PCM`);
-        const ulawBuffer = this.convertPCMToMulaw(audioBuffer);
-        const ulawBase64 = ulawBuffer.toString('base64');
-        this.sendAudioToTwilio(ulawBase64);
+    for (const frame of frames) {
+      const pcm8k = this.decodeCallerAudio(frame);
+      this.applyCallerGain(pcm8k);
+      this.elevenLabsWs.send(JSON.stringify({
+        user_audio_chunk: this.inboundConverter.convert(frame, pcm8k).toString('base64')
+      }));
+    }
+  }
+
+  private publishEvent(type: CallEventType, data: Record<string, any> = {}): void {
+    SupervisorHub.getInstance().publish(this.callSid, type, data);
+  }
+
+  private recordTurn(speaker: 'user' | 'agent', text: string): void {
+    if (!text.trim() || !this.callSid) return;
+    
+    this.transcript.push({ speaker, text });
+    this.publishEvent('transcript', { speaker, text });
+
+    TranscriptService.recordTurn({
+      callSid: this.callSid,
+      leadId: this.lead?.id,
+      conversationId: this.conversationId || undefined,
+      speaker,
+      text,
+      offsetMs: this.metrics.callStartTime ? Date.now() - this.metrics.callStartTime : 0
+    }).catch(error => {
+      console.error('❌ Error saving transcript turn:', error);
+    });
+  }
+
+  private async handleClientToolCall(toolCall: ClientToolCall): Promise<void> {
+    console.log(`🛠️  Tool call: ${toolCall.tool_name}`, toolCall.parameters);
+
+    const result = await this.toolRegistry.execute(toolCall, {
+      callSid: this.callSid,
+      lead: this.lead,
+      requestEndCall: (reason: string) => this.requestEndCall(reason),
+      requestTransfer: (reason: string) => this.requestTransfer(reason)
+    });
+
+    this.toolCalls.push({
+      name: toolCall.tool_name,
+      parameters: toolCall.parameters || {},
+      isError: result.is_error
+    });
+
+    if (result.is_error) {
+      console.error(`❌ Tool ${toolCall.tool_name} failed: ${result.result}`);
+    } else {
+      if (toolCall.tool_name === 'book_viewing') this.hasBookedViewing = true;
+      console.log(`✅ Tool ${toolCall.tool_name} result: ${result.result}`);
+    }
+
+    if (this.elevenLabsWs && this.elevenLabsWs.readyState === WebSocket.OPEN) {
+      this.elevenLabsWs.send(JSON.stringify(result));
+    }
+  }
+
+  private requestEndCall(reason: string): void {
+    if (this.endCallReason) return;
+
+    this.endCallReason = reason;
+    this.watchdog.stop();
+    console.log(`📴 End of call requested: ${reason}`);
+
+    if (this.lead) {
+      LeadService.updateLeadStatus(this.lead.id, 'completed', this.resolveCallOutcome()).catch(error => {
+        console.error('❌ Error updating lead status:', error);
+      });
+    }
+    
+    this.hangUpAfterPlayback();
+  }
+
+  /**
+   * Routes a caller keypress to its configured action and tells the agent about it
+   */
+  private handleDtmf(digit: string): void {
+    const action = this.dtmfRouter.actionFor(digit);
+    console.log(`🔢 Caller pressed ${digit} (${action})`);
+    this.watchdog.recordCallerActivity();
+    
+    this.dtmfInputs.push({
+      digit,
+      action,
+      offsetMs: this.metrics.callStartTime ? Date.now() - this.metrics.callStartTime : 0
+    });
+    
+    if (action === 'opt_out') {
+      this.endCallOnOptOut();
+      return;
+    }
+    
+    if (action === 'human' && CallService.getTransferTarget()) {
+      this.transferToHuman('caller_pressed_key');
+      return;
+    }
+    
+    if (!this.sendContextualUpdate(DtmfRouter.describe(digit, action))) {
+      console.warn(`⚠️  Conversation not ready - keypress ${digit} not forwarded to the agent`);
+    }
+  }
+
+  /**
+   * Hands the caller over to a person: the ElevenLabs leg ends and the live
+   * Twilio call is redirected to the staff number or queue, with a whisper
+   * summary for whoever answers. Resolves false when transfers aren't
+   * configured or the call is already ending.
+   */
+  async transferToHuman(reason: string, announce: boolean = true): Promise<boolean> {
+    const target = this.claimTransfer();
+    return target ? this.completeTransfer(target, reason, announce) : false;
+  }
+
+  /**
+   * Transfers once the agent has finished speaking (it announces the transfer
+   * itself). The transfer is claimed straight away, so nothing else can end
+   * the call in the meantime. Returns false when it can't go ahead.
+   */
+  private requestTransfer(reason: string): boolean {
+    const target = this.claimTransfer();
+    if (!target) return false;
+    
+    this.afterAgentFinishes(() => {
+      this.completeTransfer(target, reason, false);
+    });
+    return true;
+  }
+
+  private claimTransfer(): TransferTarget | null {
+    const target = CallService.getTransferTarget();
+    if (!target || this.endCallReason || !this.callSid) return null;
+    
+    this.endCallReason = 'transferred_to_human';
+    this.watchdog.stop();
+    return target;
+  }
+
+  private async completeTransfer(target: TransferTarget, reason: string, announce: boolean): Promise<boolean> {
+    console.log(`🧑‍💼 Transferring call to ${target.type} ${target.value} (${reason})`);
+    this.isShuttingDown = true;
+    this.watchdog.stop();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.elevenLabsWs?.close();
+    this.clearTwilioAudio();
+    
+    const summary = this.buildTransferSummary(reason);
+    const baseUrl = process.env.WEBHOOK_BASE_URL || process.env.NGROK_URL;
+    const whisperUrl = baseUrl ? `${baseUrl}/transfer/whisper?callSid=${this.callSid}` : null;
+    this.publishEvent('transferred', { target: target.value, reason, summary });
+    
+    if (this.lead) {
+      LeadService.updateLeadStatus(this.lead.id, 'completed', this.endCallReason).catch(error => {
+        console.error('❌ Error updating lead status:', error);
+      });
+    }
+    
+    try {
+      // Saved first, so the summary is there when the whisper is requested
+      await CallService.recordTransfer(this.callSid, target, reason, summary);
+      await CallService.redirectCall(this.callSid, TwilioHandler.buildTransferTwiml(target, whisperUrl, announce));
+      return true;
+    } catch (error) {
+      console.error('❌ Error transferring call:', error);
+      this.endCallReason = 'transfer_failed';
+      if (this.lead) {
+        LeadService.updateLeadStatus(this.lead.id, 'failed', this.endCallReason).catch(updateError => {
+          console.error('❌ Error updating lead status:', updateError);
+        });
       }
-      
-      // Minimal pacing for μ-law (10ms for better responsiveness)
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await this.playPhrase(APOLOGY_PHRASE);
+      this.hangUpAfterPlayback();
+      return false;
+    }
+  }
+
+  /**
+   * A short spoken briefing for the staff member taking a transferred call
+   */
+  private buildTransferSummary(reason: string): string {
+    const lead = this.lead;
+    const parts = [`Transferred call from ${lead?.name || this.phoneNumber || 'an unknown caller'}, reason: ${reason.replace(/_/g, ' ')}.`];
+    
+    if (lead) {
+      const { existingData, missingFields } = this.conversationStrategy || LeadService.generateConversationStrategy(lead);
+      if (lead.address_line_1) parts.push(`They are calling about ${lead.address_line_1}.`);
+      if (existingData.budget) parts.push(`Budget ${existingData.budget} a month.`);
+      if (existingData.moveInDate) parts.push(`Moving in ${existingData.moveInDate}.`);
+      if (lead.viewing_at) parts.push(`Viewing booked for ${new Date(lead.viewing_at).toLocaleString('en-GB')}.`);
+      if (missingFields.length > 0) parts.push(`Still missing: ${missingFields.join(', ')}.`);
+    }
+    
+    const lastCallerLine = [...this.transcript].reverse().find(line => line.speaker === 'user');
+    if (lastCallerLine) {
+      parts.push(`They last said: ${lastCallerLine.text}`);
     }
     
-    this.isProcessingAudio = false;
+    return parts.join(' ');
   }
 
+  /**
+   * Stops the conversation when answering machine detection finds a machine;
+   * the call is then redirected to leave a voicemail or hung up
+   */
+  endForMachine(outcome: 'voicemail_left' | 'machine_detected' | 'fax_detected'): void {
+    if (this.endCallReason) return;
+    
+    console.log(`📼 Answering machine on ${this.callSid} - ending the conversation (${outcome})`);
+    this.endCallReason = outcome;
+    this.isMachineAnswered = true;
+    this.isShuttingDown = true;
+    this.watchdog.stop();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.elevenLabsWs?.close();
+    this.clearTwilioAudio();
+  }
 
+  private nudgeSilentCaller(silentMs: number): void {
+    console.log(`🤫 No one has spoken for ${Math.round(silentMs / 1000)}s - nudging the agent`);
+    
+    this.sendContextualUpdate(`The line has been silent for ${Math.round(silentMs / 1000)} seconds. Check whether the caller is still there.`);
+  }
 
-  private convertPCMToMulaw(pcmBuffer: Buffer): Buffer {
-    // Convert PCM 16-bit 8kHz to mulaw 8-bit 8kHz
-    const pcm16bit = new Int16Array(pcmBuffer.buffer, pcmBuffer.byteOffset, pcmBuffer.length / 2);
-    const mulaw = new Uint8Array(pcm16bit.length);
+  /**
+   * Ends the call when a watchdog limit is hit: the agent is cut off, the caller
+   * hears a canned goodbye and the rule is recorded as the end reason
+   */
+  private async endCallOnLimit(rule: WatchdogRule): Promise<void> {
+    if (this.endCallReason) return;
+    console.log(`⏱️  Watchdog limit reached: ${rule}`);
     
-    // Apply slight gain reduction to prevent clipping
-    for (let i = 0; i < pcm16bit.length; i++) {
-      // Reduce volume by 10% to prevent distortion
-      const sample = Math.floor(pcm16bit[i] * 0.9);
-      mulaw[i] = this.linearToMulaw(sample);
+    this.isShuttingDown = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
     }
+    this.elevenLabsWs?.close();
+    this.clearTwilioAudio();
     
-    return Buffer.from(mulaw);
+    await this.playPhrase(WATCHDOG_PHRASES[rule]);
+    this.requestEndCall(rule);
   }
 
-  private linearToMulaw(sample: number): number {
-    // Convert 16-bit linear PCM to 8-bit mulaw
-    const BIAS = 0x84;
-    const CLIP = 32635;
+  /**
+   * Ends the call when the caller opts out on the keypad: the agent is cut off
+   * and the caller hears a canned confirmation before the hangup
+   */
+  private async endCallOnOptOut(): Promise<void> {
+    if (this.endCallReason) return;
     
-    let sign = (sample >> 8) & 0x80;
-    if (sign !== 0) sample = -sample;
-    if (sample > CLIP) sample = CLIP;
+    this.isShuttingDown = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.elevenLabsWs?.close();
+    this.clearTwilioAudio();
     
-    sample += BIAS;
-    let exponent = 7;
-    for (let expMask = 0x4000; (sample & expMask) === 0 && exponent > 0; exponent--, expMask >>= 1) {}
+    await this.playPhrase(OPT_OUT_PHRASE);
+    this.requestEndCall('caller_opted_out');
+  }
+
+  private resolveCallOutcome(): string {
+    if (this.hasBookedViewing) return 'viewing_booked';
+    return this.endCallReason || 'caller_hung_up';
+  }
+
+  /**
+   * Converts an ElevenLabs audio chunk to μ-law and hands it to the paced scheduler
+   */
+  private forwardAgentAudio(audioBase64: string): void {
+    const audioBuffer = Buffer.from(audioBase64, 'base64');
     
-    const mantissa = (sample >> (exponent + 3)) & 0x0F;
-    const mulaw = ~(sign | (exponent << 4) | mantissa);
+    // Log quality occasionally
+    if (Math.random() < 0.01) {
+      if (this.outboundConverter.isPassthrough) {
+        console.log(`📊 Agent Audio Quality - Direct μ-law passthrough (${audioBuffer.length} bytes)`);
+      } else if (this.outboundConverter.format.encoding === 'pcm') {
+        this.logAudioQuality(`Agent Audio (${formatName(this.outboundConverter.format)})`, toInt16Samples(audioBuffer.subarray(0, audioBuffer.length - (audioBuffer.length % 2))));
+      }
+    }
     
-    return mulaw & 0xFF;
+    // Convert to Twilio μ-law 8kHz (passthrough when ElevenLabs already sends it)
+    this.outboundAudio.enqueue(this.outboundConverter.convert(audioBuffer));
   }
 
-  private convertMulawToPCM(mulawBuffer: Buffer): Buffer {
-    // Convert μ-law 8-bit 8kHz to PCM 16-bit 16kHz with better interpolation
-    const mulawSamples = new Uint8Array(mulawBuffer);
-    const pcm8k = new Int16Array(mulawSamples.length);
+  /**
+   * Notes how much of the agent's last turn the caller actually heard before cutting in
+   */
+  private recordAgentInterrupted(position: PlaybackPosition): void {
+    // Only a turn with audio still to play was cut off
+    if (position.sentMs === 0 || position.playedMs >= position.sentMs) return;
     
-    // First decode μ-law to PCM 8kHz
-    for (let i = 0; i < mulawSamples.length; i++) {
-      pcm8k[i] = this.mulawToLinear(mulawSamples[i]);
+    console.log(`✂️  Agent turn truncated - caller heard ${position.playedMs}ms of ${position.sentMs}ms sent`);
+    this.publishEvent('interruption', { heardMs: position.playedMs, sentMs: position.sentMs });
+    
+    const lastAgentLine = [...this.transcript].reverse().find(line => line.speaker === 'agent');
+    if (lastAgentLine) {
+      lastAgentLine.interrupted = true;
     }
     
+    TranscriptService.markAgentTurnInterrupted(this.callSid, position.playedMs).catch(error => {
+      console.error('❌ Error saving interrupted turn:', error);
+    });
+  }
+
+  private decodeCallerAudio(mulawBuffer: Buffer): Int16Array {
+    // Decode μ-law to PCM 8kHz, reusing the session's scratch buffer
+    const pcm8k = decodeMulaw(mulawBuffer, this.inboundScratch);
+    this.inboundScratch = pcm8k.length > this.inboundScratch.length ? pcm8k : this.inboundScratch;
+    return pcm8k;
+  }
+
+  private applyCallerGain(pcm8k: Int16Array): void {
     // Apply adaptive gain to boost quiet audio
     // Calculate the current RMS to determine how much gain to apply
     let sum = 0;
@@ -486,45 +981,109 @@ export class ElevenLabsSession {
       pcm8k[i] = Math.max(-32768, Math.min(32767, amplified));
     }
     
-    // Better upsampling using linear interpolation
-    const pcm16k = new Int16Array(pcm8k.length * 2);
-    for (let i = 0; i < pcm8k.length - 1; i++) {
-      // Current sample
-      pcm16k[i * 2] = pcm8k[i];
-      // Interpolated sample (average between current and next)
-      pcm16k[i * 2 + 1] = Math.round((pcm8k[i] + pcm8k[i + 1]) / 2);
-    }
-    // Handle last sample
-    pcm16k[(pcm8k.length - 1) * 2] = pcm8k[pcm8k.length - 1];
-    pcm16k[(pcm8k.length - 1) * 2 + 1] = pcm8k[pcm8k.length - 1];
-    
     // Log audio quality metrics every 100th chunk
     if (Math.random() < 0.01) {
-      this.logAudioQuality('User Audio (μ-law → PCM + Gain)', pcm16k);
+      this.logAudioQuality('User Audio (μ-law → PCM + Gain)', pcm8k);
     }
-    
-    return Buffer.from(pcm16k.buffer);
   }
 
-  private detectSpeech(pcmBuffer: Buffer): boolean {
-    // More sophisticated VAD with multiple checks
-    const samples = new Int16Array(pcmBuffer.buffer, pcmBuffer.byteOffset, pcmBuffer.length / 2);
+  /**
+   * Picks the inbound and outbound conversion pipelines from the formats ElevenLabs advertises
+   */
+  private negotiateAudioFormats(inputFormat?: string, outputFormat?: string): void {
+    console.log(`📊 Agent output format: ${outputFormat}`);
+    console.log(`🎤 User input format: ${inputFormat}`);
     
-    // Calculate RMS (Root Mean Square) energy
-    let sum = 0;
-    let maxAmplitude = 0;
-    for (let i = 0; i < samples.length; i++) {
-      sum += samples[i] * samples[i];
-      maxAmplitude = Math.max(maxAmplitude, Math.abs(samples[i]));
+    if (inputFormat) {
+      try {
+        this.inboundConverter = new InboundAudioConverter(parseAudioFormat(inputFormat));
+      } catch (error: any) {
+        console.error(`❌ ${error.message} - keeping ${formatName(this.inboundConverter.format)} for caller audio`);
+      }
     }
-    const rms = Math.sqrt(sum / samples.length);
     
-    // Multiple thresholds for better detection (increased to reduce false positives)
-    const rmsThreshold = 1200; // RMS threshold (increased for less sensitivity)
-    const peakThreshold = 3500; // Peak amplitude threshold (increased for less sensitivity)
+    if (outputFormat) {
+      try {
+        this.outboundConverter = new OutboundAudioConverter(parseAudioFormat(outputFormat), OUTBOUND_PCM_GAIN);
+      } catch (error: any) {
+        console.error(`❌ ${error.message} - keeping ${formatName(this.outboundConverter.format)} for agent audio`);
+      }
+    }
     
-    // Speech detected if either RMS or peak exceeds threshold
-    return rms > rmsThreshold || maxAmplitude > peakThreshold;
+    console.log(`🔀 Audio pipeline: caller ulaw_8000 → ${formatName(this.inboundConverter.format)}, agent ${formatName(this.outboundConverter.format)} → ulaw_8000`);
+  }
+
+  private updateRemoteSpeechState(score: number): void {
+    if (!this.isUserSpeaking && score > REMOTE_VAD_START_SCORE) {
+      this.isUserSpeaking = true;
+      this.speechStartTime = Date.now();
+      this.awaitingResponseSince = undefined;
+    } else if (this.isUserSpeaking && score < REMOTE_VAD_STOP_SCORE) {
+      this.isUserSpeaking = false;
+      this.awaitingResponseSince = Date.now();
+      console.log(`🔇 User stopped speaking (duration: ${Date.now() - this.speechStartTime}ms)`);
+    }
+  }
+
+  /**
+   * Debounces per-frame VAD decisions into speech start/stop events and barges in on the agent
+   */
+  private updateSpeechState(isSpeech: boolean): void {
+    if (isSpeech) {
+      this.consecutiveSilentChunks = 0;
+      this.consecutiveSpeechFrames++;
+      
+      // Check if user just started speaking (after minimum consecutive frames)
+      if (!this.isUserSpeaking && this.consecutiveSpeechFrames >= this.minSpeechFrames && this.shouldBargeIn()) {
+        this.isUserSpeaking = true;
+        this.speechStartTime = Date.now();
+        this.awaitingResponseSince = undefined;
+        
+        // Send user_activity to interrupt the agent
+        this.elevenLabsWs?.send(JSON.stringify({
+          type: 'user_activity'
+        }));
+        console.log('🎤 User started speaking - interrupting agent');
+        
+        // Drop unsent audio and tell Twilio to immediately stop playing
+        this.recordAgentInterrupted(this.clearTwilioAudio());
+      }
+    } else {
+      this.consecutiveSilentChunks++;
+      this.consecutiveSpeechFrames = 0; // Reset speech frames on silence
+      this.isBargeInSuppressed = false;
+      
+      // User stopped speaking after enough silent chunks
+      if (this.isUserSpeaking && this.consecutiveSilentChunks >= this.silenceThreshold) {
+        this.isUserSpeaking = false;
+        const speechDuration = Date.now() - this.speechStartTime;
+        console.log(`🔇 User stopped speaking (duration: ${speechDuration}ms)`);
+        this.awaitingResponseSince = Date.now();
+      }
+    }
+  }
+
+  /**
+   * Checks a detected speech burst against the agent's own playback so line echo
+   * doesn't cut the agent off mid-sentence
+   */
+  private shouldBargeIn(): boolean {
+    const agentPlaying = this.outboundAudio.isPlayingWithin(ECHO_TAIL_MS);
+    const threshold = this.vad?.speechThresholdDb ?? -Infinity;
+    const decision = this.echoGuard.evaluate(agentPlaying, threshold);
+    
+    // Only log an ignored burst once, it is re-evaluated on every frame
+    if (!decision.interrupt && this.isBargeInSuppressed) return false;
+    this.isBargeInSuppressed = !decision.interrupt;
+    
+    const details = [
+      `caller ${decision.callerDb.toFixed(1)}dBFS`,
+      decision.requiredDb !== undefined ? `required ${decision.requiredDb.toFixed(1)}dBFS` : null,
+      decision.correlation !== undefined ? `echo correlation ${decision.correlation.toFixed(2)} at ${decision.lagMs}ms` : null
+    ].filter(Boolean).join(', ');
+    console.log(`🗣️  Barge-in decision: ${decision.interrupt ? 'interrupt' : 'ignore'} (${decision.reason}) - ${details}`);
+    
+    return decision.interrupt;
   }
 
   private logAudioQuality(label: string, samples: Int16Array): void {
@@ -560,36 +1119,34 @@ export class ElevenLabsSession {
     console.log(`   Clipping Risk: ${maxAmplitude > 30000 ? '⚠️ HIGH' : '✅ LOW'}`);
   }
 
-  private mulawToLinear(mulaw: number): number {
-    // Convert 8-bit μ-law to 16-bit linear PCM
-    const MULAW_MAX = 0x1FFF;
-    const MULAW_BIAS = 33;
-    const exp_lut = [0,132,396,924,1980,4092,8316,16764];
-    
-    mulaw = ~mulaw;
-    const sign = (mulaw & 0x80);
-    const exponent = (mulaw >> 4) & 0x07;
-    const mantissa = mulaw & 0x0F;
-    
-    let sample = exp_lut[exponent] + (mantissa << (exponent + 3));
-    sample = sample - MULAW_BIAS;
-    
-    return sign !== 0 ? -sample : sample;
-  }
-
-  private sendAudioToTwilio(audioBase64: string): void {
+  private sendAudioToTwilio(ulawAudio: Buffer): void {
     const audioMessage = {
       event: 'media',
       streamSid: this.streamSid,
       media: {
-        payload: audioBase64
+        payload: ulawAudio.toString('base64')
       }
     };
     
     this.twilioWs.send(JSON.stringify(audioMessage));
+    this.echoGuard.recordAgentAudio(ulawAudio);
+    this.recorder?.write('agent', decodeMulaw(ulawAudio));
   }
 
-  private clearTwilioAudio(): void {
+  private sendMarkToTwilio(name: string): void {
+    // Twilio echoes the mark back once the audio before it has played
+    this.twilioWs.send(JSON.stringify({
+      event: 'mark',
+      streamSid: this.streamSid,
+      mark: { name }
+    }));
+  }
+
+  /**
+   * Stops agent playback on our side and Twilio's, returning how much of the
+   * current utterance the caller heard
+   */
+  private clearTwilioAudio(): PlaybackPosition {
     // Send a clear event to Twilio to stop all audio immediately
     const clearMessage = {
       event: 'clear',
@@ -598,95 +1155,44 @@ export class ElevenLabsSession {
     
     console.log('🛑 Sending clear command to Twilio');
     this.twilioWs.send(JSON.stringify(clearMessage));
+    this.echoGuard.clearAgentAudio();
+    this.recorder?.truncate('agent');
+    return this.outboundAudio.clear();
   }
 
-  private getContractLengthDisplay(contractLength: ContractLength): string {
-    switch (contractLength) {
-      case ContractLength.LT_SIX_MONTHS:
-        return 'Less than 6 months';
-      case ContractLength.SIX_MONTHS:
-        return '6 months';
-      case ContractLength.TWELVE_MONTHS:
-        return '12 months';
-      case ContractLength.GT_TWELVE_MONTHS:
-        return 'More than 12 months';
-      default:
-        return contractLength;
-    }
-  }
-
-  private buildLeadContext(): string {
-    if (!this.lead || !this.conversationStrategy) return '';
-    
-    const { completenessLevel, missingFields, existingData } = this.conversationStrategy;
-    
-    let context = `LEAD CONTEXT:
-Lead ID: ${this.lead.id}
-Completeness: ${completenessLevel}
-Phone Number: ${this.lead.phone_number}
-
-`;
-    
-    // Add existing data
-    if (existingData.name) context += `Name: ${existingData.name}\n`;
-    if (existingData.moveInDate) context += `Move-in Date: ${existingData.moveInDate}\n`;
-    if (existingData.budget) context += `Budget: ${existingData.budget} monthly\n`;
-    if (existingData.yearlyWage) context += `Annual Income: ${existingData.yearlyWage}\n`;
-    if (existingData.occupation) context += `Occupation: ${existingData.occupation}\n`;
-    if (existingData.contractLength) context += `Contract Length: ${existingData.contractLength}\n`;
-    
-    // Add property details if available
-    if (this.lead.address_line_1 || this.lead.postcode || this.lead.bedroom_count || this.lead.property_cost) {
-      context += `\nPROPERTY DETAILS:\n`;
-      if (this.lead.address_line_1) context += `Address: ${this.lead.address_line_1}\n`;
-      if (this.lead.postcode) context += `Postcode: ${this.lead.postcode}\n`;
-      if (this.lead.bedroom_count) context += `Bedrooms: ${this.lead.bedroom_count}\n`;
-      if (this.lead.availability_at) {
-        const availDate = new Date(this.lead.availability_at);
-        context += `Available From: ${availDate.toLocaleDateString('en-GB')}\n`;
-      }
-      if (this.lead.property_cost) context += `Monthly Rent: £${this.lead.property_cost}\n`;
-    }
-    
-    // Add missing fields
-    if (missingFields.length > 0) {
-      context += `\nMISSING REQUIRED FIELDS: ${missingFields.join(', ')}\n`;
-    }
+  /**
+   * Claims the connection and lead lookup started while the phone was ringing,
+   * falling back to a fresh lookup and socket when there is no pre-connection
+   */
+  private async startConversation(): Promise<void> {
+    const pooled = ConnectionPool.getInstance().markAsActive(this.callSid);
     
-    // Add conversation instructions based on completeness
-    context += `\nCONVERSATION STRATEGY:
+    // Load lead data before connecting to ensure it's available immediately
+    await this.loadLeadData(pooled?.leadLookup);
+    const callStartSaved = this.saveCallStart();
+    this.startRecording();
+    this.watchdog.start(this.metrics.callStartTime);
     
-IMPORTANT: After your initial greeting and request to confirm details, WAIT for the person to give permission before proceeding. If they say yes, proceed with confirming details. If they're busy, offer to call back later.
-
-VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekdays (Monday-Friday). Do not offer or accept viewing times outside these hours.
-
-`;
-    if (completenessLevel === 'COMPLETE') {
-      context += `- This lead has all required information
-- Once they agree to proceed, quickly confirm their details: move-in date, budget, area
-- Then immediately offer viewing times
-- Be efficient and professional`;
-    } else if (completenessLevel === 'PARTIAL') {
-      context += `- This lead has some information
-- Once they agree to proceed, confirm existing data first
-- Then collect missing fields: ${missingFields.join(', ')}
-- Ask for missing data strategically before booking`;
-    } else {
-      context += `- This lead has minimal information
-- Once they agree to proceed, use standard qualification flow
-- Collect all required fields systematically
-- Essential: move-in date, budget, area, occupation`;
+    const isPooledReady = pooled ? (pooled.ready ? await pooled.ready : pooled.isReady) : false;
+    if (pooled && !isPooledReady) {
+      console.log('⚠️  Pre-warmed connection unavailable, opening a new one');
     }
     
-    return context;
+    // The call row must exist before the conversation ID is written to it
+    await callStartSaved;
+    await this.initializeElevenLabsConnection(false, isPooledReady ? pooled!.ws : null);
   }
 
-  private async loadLeadData(): Promise<void> {
-    if (!this.phoneNumber) return;
+  private async loadLeadData(leadLookup?: Promise<Lead | null>): Promise<void> {
+    if (!this.phoneNumber && !leadLookup) return;
     
     try {
-      console.log(`🔍 Looking up lead data for ${this.phoneNumber}`);
-      this.lead = await LeadService.getLeadByPhoneNumber(this.phoneNumber, this.callSid);
+      if (leadLookup) {
+        this.lead = await leadLookup;
+      } else {
+        console.log(`🔍 Looking up lead data for ${this.phoneNumber}`);
+        this.lead = await LeadService.getLeadByPhoneNumber(this.phoneNumber, this.callSid);
+      }
       
       if (this.lead) {
         this.conversationStrategy = LeadService.generateConversationStrategy(this.lead);
@@ -695,8 +1201,15 @@ VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekda
           completeness: this.lead.completeness_level,
           missingFields: this.conversationStrategy.missingFields
         });
+        this.publishEvent('lead_loaded', {
+          leadId: this.lead.id,
+          name: this.lead.name,
+          completeness: this.lead.completeness_level,
+          missingFields: this.conversationStrategy.missingFields
+        });
       } else {
         console.log('ℹ️ No lead data found for this phone number');
+        this.publishEvent('lead_loaded', { leadId: null });
       }
     } catch (error) {
       console.error('❌ Error loading lead data:', error);
@@ -706,39 +1219,40 @@ VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekda
   handleMessage(data: Buffer): void {
     try {
       const message: TwilioMediaMessage = JSON.parse(data.toString());
+      if (this.isStreamRejected) return;
       
       switch (message.event) {
         case 'start':
           console.log('📞 Twilio stream started');
-          if (message.start) {
+          if (message.start && !isValidStreamToken(message.start.callSid, message.start.customParameters?.token)) {
+            console.warn(`🚫 Rejecting media stream for ${message.start.callSid}: missing or invalid stream token`);
+            this.isStreamRejected = true;
+            this.twilioWs.close(1008, 'Invalid stream token');
+          } else if (message.start) {
             this.callSid = message.start.callSid;
             this.streamSid = message.start.streamSid;
             this.phoneNumber = message.start.customParameters?.from || '';
+            this.direction = message.start.customParameters?.direction?.startsWith('outbound') ? 'outbound' : 'inbound';
             
+            // The stream token is a credential, so it stays out of the logs
+            const { token, ...customParameters } = message.start.customParameters || {};
             console.log('📞 Call details:', {
               callSid: this.callSid,
               streamSid: this.streamSid,
               phoneNumber: this.phoneNumber,
-              customParameters: message.start.customParameters
+              customParameters
             });
             
-            // Load lead data before connecting to ensure it's available immediately
-            if (this.phoneNumber) {
-              this.loadLeadData().then(() => {
-                // Small delay to ensure lead data is fully processed
-                setTimeout(() => {
-                  this.initializeElevenLabsConnection();
-                }, 100);
-              }).catch(error => {
-                console.error('❌ Error loading lead data:', error);
-                // Continue without lead data
-                this.initializeElevenLabsConnection();
-              });
-            } else {
-              this.initializeElevenLabsConnection();
-            }
-            
             this.metrics.callStartTime = Date.now();
+            SessionRegistry.getInstance().register(this.callSid, this);
+            this.publishEvent('call_started', {
+              direction: this.direction,
+              phoneNumber: this.phoneNumber,
+              streamSid: this.streamSid
+            });
+            this.startConversation().catch(error => {
+              console.error('❌ Error starting conversation:', error);
+            });
           }
           break;
           
@@ -747,71 +1261,60 @@ VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekda
           break;
           
         case 'media':
-          if (message.media && this.elevenLabsWs && this.isConnected) {
+          if (message.media && this.elevenLabsWs && this.isConnected && this.isConversationReady) {
             if (!this.metrics.audioStartTime) {
               this.metrics.audioStartTime = Date.now();
               const audioLatency = this.metrics.audioStartTime - this.metrics.callStartTime;
               console.log(`🎤 First audio received after ${audioLatency}ms`);
+              this.publishEvent('latency', { metric: 'audio_setup', ms: audioLatency });
             }
             
-            // Convert Twilio μ-law to PCM for ElevenLabs
+            // Decode Twilio μ-law to PCM for VAD and conversion
             const mulawBuffer = Buffer.from(message.media.payload, 'base64');
-            const pcmBuffer = this.convertMulawToPCM(mulawBuffer);
-            
-            // Simple VAD: Check if audio contains speech
-            const isSpeech = this.detectSpeech(pcmBuffer);
+            const pcm8k = this.decodeCallerAudio(mulawBuffer);
+            this.echoGuard.recordCallerFrame(pcm8k);
+            this.recorder?.write('caller', pcm8k);
             
-            if (isSpeech) {
-              this.consecutiveSilentChunks = 0;
-              this.consecutiveSpeechFrames++;
-              
-              // Check if user just started speaking (after minimum consecutive frames)
-              if (!this.isUserSpeaking && this.consecutiveSpeechFrames >= this.minSpeechFrames) {
-                this.isUserSpeaking = true;
-                this.speechStartTime = Date.now();
-                
-                // Send user_activity to interrupt the agent
-                this.elevenLabsWs.send(JSON.stringify({
-                  type: 'user_activity'
-                }));
-                console.log('🎤 User started speaking - interrupting agent');
-                
-                // Clear any queued audio on our side
-                this.audioQueue = [];
-                this.isProcessingAudio = false;
-                
-                // Tell Twilio to immediately stop playing audio
-                this.clearTwilioAudio();
-              }
-            } else {
-              this.consecutiveSilentChunks++;
-              this.consecutiveSpeechFrames = 0; // Reset speech frames on silence
-              
-              // User stopped speaking after enough silent chunks
-              if (this.isUserSpeaking && this.consecutiveSilentChunks >= this.silenceThreshold) {
-                this.isUserSpeaking = false;
-                const speechDuration = Date.now() - this.speechStartTime;
-                console.log(`🔇 User stopped speaking (duration: ${speechDuration}ms)`);
-              }
+            // Local VAD runs on the raw decoded audio, before gain distorts its energy
+            if (this.vad) {
+              this.updateSpeechState(this.vad.isSpeech(pcm8k));
             }
+            this.applyCallerGain(pcm8k);
             
-            // Always send audio to ElevenLabs
-            const pcmBase64 = pcmBuffer.toString('base64');
+            // Always send audio to ElevenLabs in the negotiated input format
             this.elevenLabsWs.send(JSON.stringify({
-              user_audio_chunk: pcmBase64
+              user_audio_chunk: this.inboundConverter.convert(mulawBuffer, pcm8k).toString('base64')
             }));
-          } else if (!this.isConnected) {
+          } else if (message.media) {
+            // Keep the caller's first words until the conversation is ready
+            const mulawBuffer = Buffer.from(message.media.payload, 'base64');
+            this.preConnectBuffer.push(mulawBuffer);
+            this.recorder?.write('caller', decodeMulaw(mulawBuffer));
+            
             // Don't spam logs, just log once every second
             if (!this.lastConnectionWarning || Date.now() - this.lastConnectionWarning > 1000) {
-              console.log('⏳ Waiting for ElevenLabs connection...');
+              console.log(`⏳ Waiting for ElevenLabs connection... (${this.preConnectBuffer.bufferedMs}ms of caller audio buffered)`);
               this.lastConnectionWarning = Date.now();
             }
           }
           break;
           
+        case 'dtmf':
+          if (message.dtmf) {
+            this.handleDtmf(message.dtmf.digit);
+          }
+          break;
+          
+        case 'mark':
+          if (message.mark) {
+            this.outboundAudio.onMark(message.mark.name);
+          }
+          break;
+          
         case 'stop':
           console.log('🛑 Call ended');
           this.logFinalMetrics();
+          this.saveCallEnd();
           this.cleanup();
           break;
       }
@@ -820,14 +1323,99 @@ VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekda
     }
   }
 
+  private async saveCallStart(): Promise<void> {
+    await CallService.recordCallStart({
+      callSid: this.callSid,
+      streamSid: this.streamSid,
+      leadId: this.lead?.id,
+      direction: this.direction
+    }).catch(error => {
+      console.error('❌ Error saving call record:', error);
+    });
+  }
+
+  private saveCallEnd(): void {
+    if (this.callRecordSaved || !this.callSid) return;
+    this.callRecordSaved = true;
+    this.publishEvent('call_ended', {
+      outcome: this.resolveCallOutcome(),
+      durationMs: Date.now() - this.metrics.callStartTime
+    });
+
+    CallService.recordCallEnd(this.callSid, {
+      outcome: this.resolveCallOutcome(),
+      ttftMs: this.metrics.firstTokenTime ? this.metrics.firstTokenTime - this.metrics.callStartTime : undefined,
+      audioSetupMs: this.metrics.audioStartTime ? this.metrics.audioStartTime - this.metrics.callStartTime : undefined,
+      totalResponses: this.metrics.totalResponses,
+      totalAudioBytes: this.metrics.totalAudioBytes,
+      dtmfInputs: this.dtmfInputs
+    }).catch(error => {
+      console.error('❌ Error saving call metrics:', error);
+    });
+    
+    this.finishRecording();
+    this.saveCallOutcome();
+  }
+
+  /**
+   * Classifies the finished call, applies the confirmed details to the lead and
+   * keeps the raw extraction on the call record
+   */
+  private saveCallOutcome(): void {
+    // There was no conversation to classify, and the lead is already queued for a retry
+    if (this.isMachineAnswered) return;
+    
+    const extraction = extractCallOutcome({
+      turns: this.transcript,
+      toolCalls: this.toolCalls,
+      dtmfInputs: this.dtmfInputs,
+      endReason: this.resolveCallOutcome()
+    });
+    console.log(`🧾 Call outcome: ${extraction.outcome} (${extraction.evidence}) - extracted fields: ${Object.keys(extraction.fields).join(', ') || 'none'}`);
+    
+    const lead = this.lead;
+    Promise.all([
+      lead ? LeadService.applyCallOutcome(lead, extraction) : null,
+      CallService.updateCall(this.callSid, { outcome_extraction: extraction })
+    ]).catch(error => {
+      console.error('❌ Error saving call outcome:', error);
+    });
+  }
+
+  private startRecording(): void {
+    if (!LeadService.shouldRecordCall(this.lead)) return;
+    
+    try {
+      this.recorder = new CallRecorder(this.callSid, this.metrics.callStartTime);
+      console.log(`⏺️  Recording call to ${this.recorder.filePath}`);
+    } catch (error) {
+      console.error('❌ Error starting call recording:', error);
+    }
+  }
+
+  private finishRecording(): void {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+    
+    recorder.close().then(recordingPath => {
+      console.log(`💾 Recording saved: ${recordingPath} (${(recorder.durationMs / 1000).toFixed(1)}s)`);
+      return CallService.updateCall(this.callSid, { recording_path: recordingPath });
+    }).catch(error => {
+      console.error('❌ Error saving call recording:', error);
+    });
+  }
+
   private logFinalMetrics(): void {
     const duration = Date.now() - this.metrics.callStartTime;
     const durationSeconds = duration / 1000;
     
     console.log('🏁 Final Call Metrics:');
     console.log(`   📞 Call Duration: ${duration}ms (${durationSeconds.toFixed(1)}s)`);
+    console.log(`   🔌 ElevenLabs Ready: ${this.metrics.elevenLabsReadyTime ? this.metrics.elevenLabsReadyTime - this.metrics.callStartTime : 'N/A'}ms (${this.metrics.usedPooledConnection ? 'pre-warmed' : 'new'} connection)`);
     console.log(`   🎤 Audio Setup Time: ${this.metrics.audioStartTime ? this.metrics.audioStartTime - this.metrics.callStartTime : 'N/A'}ms`);
     console.log(`   🚀 TTFT: ${this.metrics.firstTokenTime ? this.metrics.firstTokenTime - this.metrics.callStartTime : 'N/A'}ms`);
+    console.log(`   ⏪ Pre-connect Audio: ${this.preConnectBuffer.replayedMs}ms replayed, ${this.preConnectBuffer.discardedMs}ms discarded (max ${this.preConnectBuffer.maxDurationMs}ms)`);
     console.log(`   💬 Total Responses: ${this.metrics.totalResponses}`);
     console.log(`   📊 Total Audio: ${(this.metrics.totalAudioBytes / 1024).toFixed(1)}KB`);
     
@@ -847,10 +1435,23 @@ VIEWING HOURS: Viewings can ONLY be booked between 9:00 AM and 5:00 PM on weekda
 
   cleanup(): void {
     console.log('🧹 Cleaning up ElevenLabsSession');
+    this.saveCallEnd();
+    SessionRegistry.getInstance().unregister(this.callSid, this);
+    this.isShuttingDown = true;
+    this.outboundAudio.stop();
+    this.watchdog.stop();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    if (this.agentFinishTimer) {
+      clearTimeout(this.agentFinishTimer);
+      this.agentFinishAction = undefined;
+    }
     if (this.elevenLabsWs) {
       this.elevenLabsWs.close();
       this.elevenLabsWs = null;
     }
     this.isConnected = false;
+    this.isConversationReady = false;
   }
 } 
\ No newline at end of file
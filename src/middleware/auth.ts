@@ -1,12 +1,38 @@
 import { Request, Response, NextFunction } from 'express';
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import twilio from 'twilio';
 
 export interface AuthenticatedRequest extends Request {
   authenticated?: boolean;
+  rawBody?: Buffer;  // Kept by the JSON body parser for signature checks
 }
 
+// How old an ElevenLabs webhook signature may be before it is rejected as a replay
+const ELEVENLABS_SIGNATURE_TOLERANCE_SECONDS = parseInt(process.env.ELEVENLABS_WEBHOOK_TOLERANCE_SECONDS || '1800');
+
+const getWebhookSecret = (): string => process.env.WEBHOOK_SECRET || 'default-webhook-secret';
+
+export const isTwilioSignatureValidationEnabled = (): boolean => process.env.TWILIO_VALIDATE_SIGNATURE !== 'false';
+
+/**
+ * The URL Twilio reaches this server on: WEBHOOK_BASE_URL or NGROK_URL, else
+ * the host the request came in on, as forwarded by any proxy in front of us
+ */
+export const getPublicBaseUrl = (req: Request): string => {
+  const configured = process.env.WEBHOOK_BASE_URL || process.env.NGROK_URL;
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+  
+  const forwardedProto = req.get('x-forwarded-proto')?.split(',')[0].trim();
+  const forwardedHost = req.get('x-forwarded-host')?.split(',')[0].trim();
+  return `${forwardedProto || req.protocol}://${forwardedHost || req.get('host')}`;
+};
+
 export const authenticateWebhook = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
-  const webhookSecret = process.env.WEBHOOK_SECRET || 'default-webhook-secret';
+  const webhookSecret = getWebhookSecret();
   
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({ error: 'Missing or invalid authorization header' });
@@ -20,4 +46,119 @@ export const authenticateWebhook = (req: AuthenticatedRequest, res: Response, ne
   
   req.authenticated = true;
   next();
-}; 
\ No newline at end of file
+};
+
+const isSameSecret = (expected: string, actual: string): boolean =>
+  expected.length === actual.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+
+/**
+ * Checks a WebSocket upgrade carries the webhook secret, as a Bearer token or
+ * as ?token= (browsers can't set headers on WebSocket requests). Live calls
+ * carry personal data, so nothing is authorized until WEBHOOK_SECRET is set.
+ */
+export const isAuthorizedUpgrade = (req: IncomingMessage): boolean => {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ WEBHOOK_SECRET not configured - rejecting supervisor connection');
+    return false;
+  }
+  
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+  
+  return !!token && isSameSecret(secret, token);
+};
+
+/**
+ * Verifies the X-Twilio-Signature header: an HMAC-SHA1 with TWILIO_AUTH_TOKEN
+ * over the full public URL Twilio requested plus the sorted POST parameters.
+ * TWILIO_VALIDATE_SIGNATURE=false skips the check, e.g. for local curl testing.
+ */
+export const validateTwilioSignature = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!isTwilioSignatureValidationEnabled()) {
+    return next();
+  }
+  
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    console.error('❌ TWILIO_AUTH_TOKEN not configured - rejecting Twilio webhook');
+    return res.status(500).json({ error: 'Twilio auth token not configured' });
+  }
+  
+  const signature = req.headers['x-twilio-signature'];
+  if (typeof signature !== 'string') {
+    return res.status(401).json({ error: 'Missing Twilio signature' });
+  }
+  
+  const url = `${getPublicBaseUrl(req)}${req.originalUrl}`;
+  if (!twilio.validateRequest(authToken, signature, url, req.body || {})) {
+    console.warn(`⚠️  Invalid Twilio signature for ${url}`);
+    return res.status(403).json({ error: 'Invalid Twilio signature' });
+  }
+  
+  req.authenticated = true;
+  next();
+};
+
+/**
+ * The token passed to a call's media stream as a <Parameter>, so the stream can
+ * prove it was started by TwiML we served for that call. Keyed with
+ * WEBHOOK_SECRET, else TWILIO_AUTH_TOKEN - never the default secret, which
+ * would let anyone forge tokens - and null when neither is set.
+ */
+export const createStreamToken = (callSid: string): string | null => {
+  const secret = process.env.WEBHOOK_SECRET || process.env.TWILIO_AUTH_TOKEN;
+  if (!secret) return null;
+  
+  return crypto.createHmac('sha256', secret).update(callSid).digest('hex');
+};
+
+export const isValidStreamToken = (callSid: string, token: string | undefined): boolean => {
+  if (!callSid || !token) return false;
+  
+  const expected = createStreamToken(callSid);
+  return !!expected && isSameSecret(expected, token);
+};
+
+/**
+ * Verifies the ElevenLabs-Signature header ("t=<unix time>,v0=<hex HMAC-SHA256>")
+ * over "<t>.<raw body>" with ELEVENLABS_WEBHOOK_SECRET
+ */
+export const verifyElevenLabsSignature = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const secret = process.env.ELEVENLABS_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ ELEVENLABS_WEBHOOK_SECRET not configured - rejecting ElevenLabs webhook');
+    return res.status(500).json({ error: 'Webhook secret not configured' });
+  }
+  
+  const header = req.headers['elevenlabs-signature'];
+  if (typeof header !== 'string' || !req.rawBody) {
+    return res.status(401).json({ error: 'Missing ElevenLabs signature' });
+  }
+  
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = parseInt(parts.t);
+  if (!parts.v0 || isNaN(timestamp)) {
+    return res.status(401).json({ error: 'Malformed ElevenLabs signature' });
+  }
+  
+  if (Math.abs(Date.now() / 1000 - timestamp) > ELEVENLABS_SIGNATURE_TOLERANCE_SECONDS) {
+    return res.status(401).json({ error: 'ElevenLabs signature expired' });
+  }
+  
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${req.rawBody.toString('utf8')}`)
+    .digest('hex');
+  const isValid = expected.length === parts.v0.length
+    && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v0));
+  
+  if (!isValid) {
+    return res.status(403).json({ error: 'Invalid ElevenLabs signature' });
+  }
+  
+  req.authenticated = true;
+  next();
+};
@@ -0,0 +1,218 @@
+import { ContractLength } from './types/contract';
+import { DtmfInput } from './dtmf-router';
+
+/**
+ * Classifies a finished call and pulls the lead details the caller confirmed out
+ * of it. Tool calls are the strongest evidence (a booked viewing, fields the
+ * agent saved); the transcript fills in the rest. Outcome phrases only count in
+ * the caller's last few turns, and not when narrowed to one option ("not
+ * interested in the two-bed"). A field is taken from the transcript when the
+ * caller answers the agent's question about it, or says "yes" to the agent
+ * reading it back.
+ */
+
+export type CallOutcome = 'viewing_booked' | 'callback_requested' | 'not_interested' | 'wrong_number' | 'incomplete';
+
+export type ExtractedField = 'moveInDate' | 'budget' | 'yearlyWage' | 'occupation' | 'contractLength';
+
+export interface ToolCallRecord {
+  name: string;
+  parameters: Record<string, any>;
+  isError: boolean;
+}
+
+export interface OutcomeExtractionInput {
+  turns: Array<{ speaker: 'user' | 'agent'; text: string }>;
+  toolCalls: ToolCallRecord[];
+  dtmfInputs: DtmfInput[];
+  endReason: string;
+}
+
+export interface ExtractedValue {
+  value: string | number;
+  source: 'tool' | 'transcript';
+  evidence: string;
+}
+
+// Stored on the call record for audit
+export interface OutcomeExtraction {
+  outcome: CallOutcome;
+  evidence: string;
+  fields: Partial<Record<ExtractedField, ExtractedValue>>;
+  endReason: string;
+  extractedAt: string;
+}
+
+// Caller phrases, most decisive first
+const OUTCOME_PATTERNS: Array<{ outcome: CallOutcome; pattern: RegExp }> = [
+  { outcome: 'wrong_number', pattern: /wrong (number|person)|no one (here )?(by|called) that|(don't|do not) know (any|who)|never (enquired|applied|asked)/i },
+  { outcome: 'not_interested', pattern: /not interested|no longer (looking|interested)|(already|just) found (a|somewhere|a place)|stop calling|(don't|do not) (call|contact) me|remove me/i },
+  { outcome: 'callback_requested', pattern: /call (me )?back|ring (me )?back|call me (later|tomorrow|another)|not a good time|bit busy|busy (right )?now|another time/i }
+];
+
+// Only the caller's closing turns decide the outcome; earlier objections may have been talked through
+const DECISIVE_TURNS = 3;
+
+// Words after a match that narrow it to one option rather than the whole enquiry,
+// e.g. "not interested in the two-bed, what else is there?"
+const QUALIFIER = /^[\s,]*(in (the|that|this|one)\b|but\b|unless\b|though\b)|\b(what else|anything else|something else|other (ones?|properties|places|rooms)|instead)\b/i;
+
+// What the agent is asking about, from its question or read-back
+const FIELD_TOPICS: Array<{ field: ExtractedField; pattern: RegExp }> = [
+  { field: 'budget', pattern: /budget|rent|per month|a month/i },
+  { field: 'yearlyWage', pattern: /earn|salary|income|wage|per year|a year/i },
+  { field: 'moveInDate', pattern: /move in|moving|move-in/i },
+  { field: 'contractLength', pattern: /contract|tenancy|how long/i },
+  { field: 'occupation', pattern: /student|employed|working|occupation|what do you do/i }
+];
+
+const AFFIRMATIVE = /^(yes|yeah|yep|yup|correct|that's (right|correct)|exactly|spot on|that's it)\b/i;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, nine: 9, twelve: 12, eighteen: 18, 'twenty four': 24
+};
+
+export function extractCallOutcome(input: OutcomeExtractionInput): OutcomeExtraction {
+  const { outcome, evidence } = classifyOutcome(input);
+  return {
+    outcome,
+    evidence,
+    fields: extractFields(input),
+    endReason: input.endReason,
+    extractedAt: new Date().toISOString()
+  };
+}
+
+function classifyOutcome({ turns, toolCalls, dtmfInputs, endReason }: OutcomeExtractionInput): { outcome: CallOutcome; evidence: string } {
+  if (toolCalls.some(call => call.name === 'book_viewing' && !call.isError)) {
+    return { outcome: 'viewing_booked', evidence: 'book_viewing tool call' };
+  }
+
+  const closingTurns = turns.filter(turn => turn.speaker === 'user').slice(-DECISIVE_TURNS);
+  for (const { outcome, pattern } of OUTCOME_PATTERNS) {
+    const turn = closingTurns.find(candidate => isUnqualifiedMatch(pattern, candidate.text));
+    if (turn) {
+      return { outcome, evidence: `Caller: "${turn.text}"` };
+    }
+  }
+
+  if (endReason === 'caller_opted_out') {
+    return { outcome: 'not_interested', evidence: 'Caller pressed the opt-out key' };
+  }
+  if (dtmfInputs.some(input => input.action === 'human')) {
+    return { outcome: 'callback_requested', evidence: 'Caller asked for a person on the keypad' };
+  }
+
+  return { outcome: 'incomplete', evidence: `No outcome reached (ended: ${endReason})` };
+}
+
+function isUnqualifiedMatch(pattern: RegExp, text: string): boolean {
+  const match = text.match(pattern);
+  if (!match) return false;
+
+  const rest = text.slice((match.index ?? 0) + match[0].length);
+  return !QUALIFIER.test(rest);
+}
+
+function extractFields({ turns, toolCalls }: OutcomeExtractionInput): Partial<Record<ExtractedField, ExtractedValue>> {
+  const fields: Partial<Record<ExtractedField, ExtractedValue>> = {};
+
+  // Later answers correct earlier ones
+  for (let i = 1; i < turns.length; i++) {
+    const question = turns[i - 1];
+    const answer = turns[i];
+    if (question.speaker !== 'agent' || answer.speaker !== 'user') continue;
+
+    // A bare "yes" confirms whatever the agent just read back
+    const source = AFFIRMATIVE.test(answer.text.trim()) ? question.text : answer.text;
+
+    for (const { field, pattern } of FIELD_TOPICS) {
+      if (!pattern.test(question.text)) continue;
+      const value = parseFieldValue(field, source);
+      if (value !== null) {
+        fields[field] = { value, source: 'transcript', evidence: `Agent: "${question.text}" Caller: "${answer.text}"` };
+      }
+    }
+  }
+
+  // Values the agent saved through update_lead_field were confirmed with the caller
+  for (const call of toolCalls) {
+    if (call.name !== 'update_lead_field' || call.isError) continue;
+    const field = call.parameters.field as ExtractedField;
+    if (FIELD_TOPICS.some(topic => topic.field === field)) {
+      fields[field] = { value: call.parameters.value, source: 'tool', evidence: 'update_lead_field tool call' };
+    }
+  }
+
+  return fields;
+}
+
+function parseFieldValue(field: ExtractedField, text: string): string | number | null {
+  switch (field) {
+    case 'budget': {
+      const amount = parseAmount(text);
+      return amount !== null && amount >= 100 && amount <= 20000 ? amount : null;
+    }
+    case 'yearlyWage': {
+      const amount = parseAmount(text);
+      return amount !== null && amount >= 1000 && amount <= 1000000 ? Math.round(amount) : null;
+    }
+    case 'occupation':
+      if (/student|studying|university|uni\b/i.test(text)) return 'student';
+      if (/\b(employed|work|working|job)\b/i.test(text)) return 'employed';
+      return null;
+    case 'contractLength': {
+      const months = parseMonths(text);
+      if (months === null) return null;
+      if (months < 6) return ContractLength.LT_SIX_MONTHS;
+      if (months < 12) return ContractLength.SIX_MONTHS;
+      if (months === 12) return ContractLength.TWELVE_MONTHS;
+      return ContractLength.GT_TWELVE_MONTHS;
+    }
+    case 'moveInDate':
+      return parseDate(text);
+  }
+}
+
+/**
+ * Reads an amount such as "£1,200", "1200 pounds" or "35k"
+ */
+function parseAmount(text: string): number | null {
+  const match = text.match(/£?\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s?(k\b|thousand)?/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  return match[2] ? amount * 1000 : amount;
+}
+
+/**
+ * Reads a duration such as "12 months", "six months" or "a year", in months
+ */
+function parseMonths(text: string): number | null {
+  const match = text.match(/\b(\d+|twenty four|eighteen|twelve|nine|six|five|four|three|two|one|a)\s+(months?|years?)\b/i);
+  if (!match) return null;
+
+  const count = /^\d+$/.test(match[1]) ? parseInt(match[1]) : NUMBER_WORDS[match[1].toLowerCase()];
+  return /^year/i.test(match[2]) ? count * 12 : count;
+}
+
+/**
+ * Reads a day and month ("15th of March", "March 15") as the next such date, in ISO format
+ */
+function parseDate(text: string): string | null {
+  const months = MONTHS.join('|');
+  const match = text.match(new RegExp(`(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${months})`, 'i'))
+    || text.match(new RegExp(`(${months})\\s+(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?`, 'i'));
+  if (!match) return null;
+
+  const [day, month] = /^\d/.test(match[1]) ? [match[1], match[2]] : [match[2], match[1]];
+  const today = new Date();
+  const date = new Date(Date.UTC(today.getFullYear(), MONTHS.indexOf(month.toLowerCase()), parseInt(day)));
+  if (date.getUTCDate() !== parseInt(day)) return null;
+  if (date < today) {
+    date.setUTCFullYear(date.getUTCFullYear() + 1);
+  }
+
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,63 @@
+/**
+ * Synthesises short canned phrases (holding messages, apologies) as μ-law 8kHz audio
+ * through the ElevenLabs TTS API, so they can be played to the caller while the
+ * conversational agent is unavailable. Clips are cached per phrase.
+ */
+export class PhraseCache {
+  private static instance: PhraseCache;
+  private clips: Map<string, Promise<Buffer | null>> = new Map();
+
+  static getInstance(): PhraseCache {
+    if (!PhraseCache.instance) {
+      PhraseCache.instance = new PhraseCache();
+    }
+    return PhraseCache.instance;
+  }
+
+  getClip(text: string): Promise<Buffer | null> {
+    let clip = this.clips.get(text);
+    if (!clip) {
+      clip = this.synthesize(text);
+      this.clips.set(text, clip);
+      // Don't cache failures, so the next call can try again
+      clip.then(buffer => {
+        if (!buffer) this.clips.delete(text);
+      });
+    }
+    return clip;
+  }
+
+  private async synthesize(text: string): Promise<Buffer | null> {
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+    const voiceId = process.env.ELEVENLABS_VOICE_ID;
+
+    if (!apiKey || !voiceId) {
+      console.warn('⚠️  ELEVENLABS_VOICE_ID not configured - cannot play canned phrases');
+      return null;
+    }
+
+    try {
+      const response = await fetch(
+        `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=ulaw_8000`,
+        {
+          method: 'POST',
+          headers: {
+            'xi-api-key': apiKey,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ text })
+        }
+      );
+
+      if (!response.ok) {
+        console.error(`❌ TTS request failed: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      console.error('❌ Error synthesising phrase:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Exponential backoff with jitter for re-establishing the ElevenLabs socket mid-call
+ */
+export class ReconnectPolicy {
+  private attempt: number = 0;
+  readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(
+    maxAttempts: number = parseInt(process.env.ELEVENLABS_RECONNECT_ATTEMPTS || '3'),
+    baseDelayMs: number = 250,
+    maxDelayMs: number = 4000
+  ) {
+    this.maxAttempts = maxAttempts;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  get attempts(): number {
+    return this.attempt;
+  }
+
+  /**
+   * Returns the delay before the next attempt, or null once attempts are exhausted
+   */
+  nextDelay(): number | null {
+    if (this.attempt >= this.maxAttempts) return null;
+
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, this.attempt));
+    this.attempt++;
+
+    // Up to 20% jitter so simultaneous calls don't reconnect in lockstep
+    return Math.round(exponential * (0.8 + Math.random() * 0.2));
+  }
+
+  reset(): void {
+    this.attempt = 0;
+  }
+}
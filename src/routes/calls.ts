@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import * as fs from 'fs';
+import { authenticateWebhook } from '../middleware/auth';
+import { CallService } from '../services/call.service';
+import { SessionRegistry } from '../session-registry';
+
+const router = Router();
+
+// GET /api/calls/:callSid/recording - Download the stereo WAV recording of a call
+router.get('/calls/:callSid/recording', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { callSid } = req.params;
+    const call = await CallService.getCallBySid(callSid);
+    
+    if (!call) {
+      return res.status(404).json({ error: 'Call not found' });
+    }
+    
+    if (!call.recording_path || !fs.existsSync(call.recording_path)) {
+      return res.status(404).json({ error: 'No recording for this call' });
+    }
+    
+    res.download(call.recording_path, `${call.call_sid}.wav`);
+    
+  } catch (error: any) {
+    console.error('❌ Error fetching call recording:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to fetch call recording'
+    });
+  }
+});
+
+// POST /api/calls/:callSid/context - Give the agent on a live call extra context, without it being said aloud
+router.post('/calls/:callSid/context', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { callSid } = req.params;
+    const { text } = req.body;
+    
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: 'text is required' });
+    }
+    
+    const session = SessionRegistry.getInstance().get(callSid);
+    if (!session) {
+      return res.status(404).json({ error: 'No active call with that SID' });
+    }
+    
+    if (!session.sendContextualUpdate(text.trim())) {
+      return res.status(409).json({ error: 'Conversation not ready - try again shortly' });
+    }
+    
+    console.log(`💬 Operator context sent to call ${callSid}`);
+    res.json({ success: true, callSid });
+    
+  } catch (error: any) {
+    console.error('❌ Error sending call context:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to send call context'
+    });
+  }
+});
+
+// POST /api/calls/:callSid/transfer - Hand a live call over to the staff number or queue
+router.post('/calls/:callSid/transfer', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { callSid } = req.params;
+    const reason = typeof req.body.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : 'operator_takeover';
+    
+    if (!CallService.getTransferTarget()) {
+      return res.status(400).json({ error: 'Transfers not configured - set TRANSFER_NUMBER or TRANSFER_QUEUE' });
+    }
+    
+    const session = SessionRegistry.getInstance().get(callSid);
+    if (!session) {
+      return res.status(404).json({ error: 'No active call with that SID' });
+    }
+    
+    if (!(await session.transferToHuman(reason))) {
+      return res.status(409).json({ error: 'Call could not be transferred - it may already be ending' });
+    }
+    
+    res.json({ success: true, callSid, reason });
+    
+  } catch (error: any) {
+    console.error('❌ Error transferring call:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to transfer call'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { verifyElevenLabsSignature } from '../middleware/auth';
+import { CallService } from '../services/call.service';
+import { PostCallWebhookPayload } from '../types/elevenlabs';
+
+const router = Router();
+
+// POST /api/webhook/elevenlabs/post-call - Receive the post-call transcript and analysis from ElevenLabs
+router.post('/webhook/elevenlabs/post-call', verifyElevenLabsSignature, async (req: Request, res: Response) => {
+  try {
+    const payload = req.body as PostCallWebhookPayload;
+    console.log(`📥 Received ElevenLabs ${payload.type} webhook for conversation ${payload.data?.conversation_id}`);
+
+    if (payload.type !== 'post_call_transcription') {
+      return res.json({ received: true, stored: false });
+    }
+
+    if (!payload.data?.conversation_id) {
+      return res.status(400).json({ error: 'Missing conversation_id' });
+    }
+
+    const call = await CallService.recordPostCallAnalysis(payload.data);
+
+    // Still acknowledged, so ElevenLabs doesn't retry a conversation we never handled
+    if (!call) {
+      console.warn(`⚠️  No call found for conversation ${payload.data.conversation_id}`);
+      return res.json({ received: true, stored: false });
+    }
+
+    console.log(`✅ Post-call analysis stored for call ${call.call_sid} (${call.call_successful || 'not evaluated'})`);
+    res.json({
+      received: true,
+      stored: true,
+      callSid: call.call_sid,
+      leadId: call.lead_id
+    });
+
+  } catch (error: any) {
+    console.error('❌ Error processing ElevenLabs post-call webhook:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to process post-call webhook'
+    });
+  }
+});
+
+export default router;
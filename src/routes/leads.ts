@@ -2,6 +2,11 @@ import { Router, Request, Response } from 'express';
 import { authenticateWebhook } from '../middleware/auth';
 import { LeadService } from '../services/lead.service';
 import { CallService } from '../services/call.service';
+import { TranscriptService } from '../services/transcript.service';
+import { buildDynamicVariables, buildLeadContext, fillUnresolvedVariables } from '../dynamic-variables';
+import { ConversationConfigBuilder } from '../conversation-config';
+import { AgentTemplate, referencedVariablesFor } from '../agent-template';
+import { SessionRegistry } from '../session-registry';
 
 const router = Router();
 
@@ -98,6 +103,43 @@ router.get('/leads/:phoneNumber', authenticateWebhook, async (req: Request, res:
   }
 });
 
+// PATCH /api/leads/:leadId - Update lead details, passing changes on to any call in progress
+router.patch('/leads/:leadId', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { leadId } = req.params;
+    const existing = await LeadService.getLeadById(parseInt(leadId));
+    
+    if (!existing) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    let update;
+    try {
+      update = await LeadService.updateLead(existing, req.body.data || {});
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+    
+    const { lead, changedColumns } = update;
+    const liveSessions = SessionRegistry.getInstance().forLead(lead.id);
+    liveSessions.forEach(session => session.applyLeadUpdate(lead, changedColumns));
+    
+    res.json({
+      success: true,
+      leadId: lead.id,
+      completeness: lead.completeness_level,
+      changed: changedColumns,
+      liveCalls: liveSessions.length
+    });
+    
+  } catch (error: any) {
+    console.error('❌ Error updating lead:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to update lead'
+    });
+  }
+});
+
 // POST /api/leads/:leadId/call - Manually trigger a call to a specific lead
 router.post('/leads/:leadId/call', authenticateWebhook, async (req: Request, res: Response) => {
   try {
@@ -142,6 +184,127 @@ router.post('/leads/:leadId/call', authenticateWebhook, async (req: Request, res
   }
 });
 
+// GET /api/leads/:leadId/calls - Get the call history for a lead
+router.get('/leads/:leadId/calls', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { leadId } = req.params;
+    const lead = await LeadService.getLeadById(parseInt(leadId));
+    
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    const calls = await CallService.getCallsForLead(lead.id);
+    
+    res.json({
+      leadId: lead.id,
+      status: lead.status,
+      calls: calls.map(call => ({
+        id: call.id,
+        direction: call.direction,
+        call_sid: call.call_sid,
+        stream_sid: call.stream_sid,
+        conversation_id: call.conversation_id,
+        started_at: call.started_at,
+        ended_at: call.ended_at,
+        duration_seconds: call.duration_seconds,
+        outcome: call.outcome,
+        answered_by: call.answered_by,
+        twilio_status: call.twilio_status,
+        ringing_at: call.ringing_at,
+        answered_at: call.answered_at,
+        recording_url: call.recording_path ? `/api/calls/${call.call_sid}/recording` : null,
+        dtmf_inputs: call.dtmf_inputs || [],
+        outcome_extraction: call.outcome_extraction || null,
+        transfer: call.transferred_at ? {
+          transferred_at: call.transferred_at,
+          target: call.transfer_target,
+          reason: call.transfer_reason,
+          summary: call.transfer_summary
+        } : null,
+        analysis: call.elevenlabs_transcript ? {
+          call_successful: call.call_successful,
+          transcript_summary: call.transcript_summary,
+          data_collection_results: call.data_collection_results || {},
+          evaluation_criteria_results: call.evaluation_criteria_results || {}
+        } : null,
+        metrics: {
+          ttft_ms: call.ttft_ms,
+          audio_setup_ms: call.audio_setup_ms,
+          total_responses: call.total_responses,
+          total_audio_bytes: call.total_audio_bytes
+        }
+      }))
+    });
+    
+  } catch (error: any) {
+    console.error('❌ Error fetching call history:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to fetch call history'
+    });
+  }
+});
+
+// GET /api/leads/:leadId/transcripts - Get conversation transcripts for a lead
+router.get('/leads/:leadId/transcripts', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { leadId } = req.params;
+    const lead = await LeadService.getLeadById(parseInt(leadId));
+    
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    const transcripts = await TranscriptService.getTranscriptsForLead(lead.id);
+    
+    res.json({
+      leadId: lead.id,
+      calls: transcripts
+    });
+    
+  } catch (error: any) {
+    console.error('❌ Error fetching transcripts:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to fetch transcripts'
+    });
+  }
+});
+
+// GET /api/leads/:leadId/dynamic-variables - Preview the variables and override a call to this lead would start with
+router.get('/leads/:leadId/dynamic-variables', authenticateWebhook, async (req: Request, res: Response) => {
+  try {
+    const { leadId } = req.params;
+    const lead = await LeadService.getLeadById(parseInt(leadId));
+    
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    const strategy = LeadService.generateConversationStrategy(lead);
+    const { variables, missingRequired } = buildDynamicVariables({ lead, strategy });
+    const configOverride = await ConversationConfigBuilder.getInstance().build(lead, buildLeadContext(lead, strategy));
+    const template = await AgentTemplate.getInstance().get();
+    const templateVariables = template ? referencedVariablesFor(template, configOverride) : null;
+    // Filled the same way as on a call, so the preview shows what the agent will receive
+    const unresolvedTemplateVariables = templateVariables ? fillUnresolvedVariables(variables, templateVariables) : null;
+    
+    res.json({
+      leadId: lead.id,
+      variables,
+      missingRequired,
+      templateVariables,
+      unresolvedTemplateVariables,
+      conversationConfigOverride: configOverride
+    });
+    
+  } catch (error: any) {
+    console.error('❌ Error previewing dynamic variables:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to preview dynamic variables'
+    });
+  }
+});
+
 // GET /api/call-config - Check Twilio configuration status
 router.get('/call-config', authenticateWebhook, async (req: Request, res: Response) => {
   const config = CallService.getConfigStatus();
@@ -4,7 +4,12 @@ import { createServer } from 'http';
 import { config } from 'dotenv';
 import { ElevenLabsSession } from './elevenlabs-session';
 import { TwilioHandler } from './twilio-handler';
+import { AgentTemplate } from './agent-template';
 import leadRoutes from './routes/leads';
+import callRoutes from './routes/calls';
+import elevenLabsRoutes from './routes/elevenlabs';
+import { AuthenticatedRequest, isAuthorizedUpgrade, isTwilioSignatureValidationEnabled, validateTwilioSignature } from './middleware/auth';
+import { SupervisorHub } from './supervisor-hub';
 import { sequelize, testConnection } from './database/config';
 
 // Load environment variables
@@ -12,18 +17,42 @@ config();
 
 const app = express();
 const server = createServer(app);
-const wss = new WebSocket.Server({ 
-  server,
-  path: '/ws'
-});
+const wss = new WebSocket.Server({ noServer: true });
+const supervisorWss = new WebSocket.Server({ noServer: true });
 
 // Add error handling for the WebSocket server
 wss.on('error', (error) => {
   console.error('❌ WebSocket Server error:', error);
 });
 
+// Twilio media streams connect to /ws, supervisors to /supervisor
+server.on('upgrade', (req, socket, head) => {
+  const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+  
+  if (pathname === '/ws') {
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  } else if (pathname === '/supervisor') {
+    if (!isAuthorizedUpgrade(req)) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    supervisorWss.handleUpgrade(req, socket, head, ws => {
+      SupervisorHub.getInstance().addClient(ws, searchParams.get('callSid'));
+    });
+  } else {
+    socket.destroy();
+  }
+});
+
 // Middleware
-app.use(express.json());
+// Keep the raw body so webhook signatures can be checked against exactly what was sent
+const keepRawBody = (req: AuthenticatedRequest, res: unknown, buf: Buffer) => {
+  req.rawBody = buf;
+};
+// Post-call payloads carry the whole transcript and analysis, well past the default 100kb
+app.use('/api/webhook/elevenlabs/post-call', express.json({ limit: '5mb', verify: keepRawBody }));
+app.use(express.json({ verify: keepRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
 // Add request logging
@@ -34,10 +63,15 @@ app.use((req, res, next) => {
 
 // API Routes
 app.use('/api', leadRoutes);
+app.use('/api', callRoutes);
+app.use('/api', elevenLabsRoutes);
 
-// Twilio webhook endpoints
-app.post('/voice', TwilioHandler.handleIncomingCall);
-app.post('/media-stream', TwilioHandler.handleMediaStream);
+// Twilio webhook endpoints, all signed by Twilio
+app.post('/voice', validateTwilioSignature, TwilioHandler.handleIncomingCall);
+app.post('/media-stream', validateTwilioSignature, TwilioHandler.handleMediaStream);
+app.post('/transfer/whisper', validateTwilioSignature, TwilioHandler.handleTransferWhisper);
+app.post('/amd-status', validateTwilioSignature, TwilioHandler.handleAmdStatus);
+app.post('/call-status', validateTwilioSignature, TwilioHandler.handleCallStatus);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -58,9 +92,12 @@ app.get('/', (req, res) => {
       mediaStream: '/media-stream',
       health: '/health',
       leadWebhook: '/api/webhook/lead-data',
-      leadLookup: '/api/leads/:phoneNumber'
+      leadLookup: '/api/leads/:phoneNumber',
+      callRecording: '/api/calls/:callSid/recording',
+      postCallWebhook: '/api/webhook/elevenlabs/post-call'
     },
     websocket: 'ws://localhost:3000/ws',
+    supervisorWebsocket: 'ws://localhost:3000/supervisor?token=YOUR_WEBHOOK_SECRET',
     features: {
       leadIntegration: true,
       smartConversation: true,
@@ -109,6 +146,8 @@ async function startServer() {
     await testConnection();
     await sequelize.sync({ force: true }); // This will drop and recreate tables
     console.log('✅ Database synchronized');
+    // Fetch the agent's prompt and template variables ahead of the first call
+    AgentTemplate.getInstance().get();
     
     server.listen(PORT, () => {
       console.log('🚀 ElevenLabs Realtime Agent Server v2');
@@ -118,6 +157,7 @@ async function startServer() {
       console.log(`📞 Twilio Phone: ${process.env.TWILIO_PHONE_NUMBER || 'Not configured'}`);
       console.log(`🗄️  Database: ${process.env.DATABASE_URL ? '✅ Connected' : '⚠️  Using default'}`);
       console.log(`🔐 Webhook Secret: ${process.env.WEBHOOK_SECRET ? '✅ Configured' : '⚠️  Using default'}`);
+      console.log(`🛡️  Twilio Signatures: ${isTwilioSignatureValidationEnabled() ? '✅ Validated' : '⚠️  Not validated (TWILIO_VALIDATE_SIGNATURE=false)'}`);
       console.log('💡 Ready to receive calls with lead integration!');
     });
   } catch (error) {
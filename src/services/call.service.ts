@@ -1,6 +1,21 @@
 import twilio from 'twilio';
 import { Lead } from '../database/models/Lead';
+import { Call } from '../database/models/Call';
 import { LeadService } from './lead.service';
+import { DtmfInput } from '../dtmf-router';
+import { PostCallWebhookPayload } from '../types/elevenlabs';
+import { TransferTarget, TwilioCallStatus } from '../types/twilio';
+
+// Statuses after which Twilio sends nothing more for the call
+const FINAL_CALL_STATUSES: TwilioCallStatus[] = ['completed', 'busy', 'no-answer', 'canceled', 'failed'];
+
+// The call outcome for calls that ended without being answered
+const UNANSWERED_OUTCOMES: Partial<Record<TwilioCallStatus, string>> = {
+  'busy': 'busy',
+  'no-answer': 'no_answer',
+  'canceled': 'call_canceled',
+  'failed': 'call_failed'
+};
 
 interface CallResult {
   success: boolean;
@@ -8,6 +23,24 @@ interface CallResult {
   error?: string;
 }
 
+// Details known when the Twilio media stream starts
+export interface CallStartInput {
+  callSid: string;
+  streamSid?: string;
+  leadId?: number;
+  direction: Call['direction'];
+}
+
+// Details known once the call has finished
+export interface CallEndInput {
+  outcome: string;
+  ttftMs?: number;
+  audioSetupMs?: number;
+  totalResponses: number;
+  totalAudioBytes: number;
+  dtmfInputs?: DtmfInput[];
+}
+
 export class CallService {
   private static twilioClient: twilio.Twilio | null = null;
 
@@ -48,16 +81,31 @@ export class CallService {
       
       const webhookUrl = `${baseUrl}/voice`;
       
-      // Make the call
+      // Make the call, with answering machine detection running alongside the conversation
       const call = await twilioClient.calls.create({
         to: lead.phone_number,
         from: fromNumber,
         url: webhookUrl,
-        method: 'POST'
+        method: 'POST',
+        statusCallback: `${baseUrl}/call-status`,
+        statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        statusCallbackMethod: 'POST',
+        ...(this.isMachineDetectionEnabled() ? {
+          machineDetection: 'DetectMessageEnd',
+          asyncAmd: 'true',
+          asyncAmdStatusCallback: `${baseUrl}/amd-status`,
+          asyncAmdStatusCallbackMethod: 'POST'
+        } : {})
       });
 
       console.log(`✅ Call initiated successfully. Call SID: ${call.sid}`);
       
+      await Call.create({
+        lead_id: lead.id,
+        direction: 'outbound',
+        call_sid: call.sid
+      });
+      
       // Update lead status to reflect that a call was initiated
       await LeadService.updateLeadStatus(lead.id, 'in_progress', 'outbound_call_initiated');
       
@@ -93,6 +141,197 @@ export class CallService {
     });
   }
 
+  /**
+   * Hang up a live call
+   */
+  static async hangupCall(callSid: string): Promise<void> {
+    const twilioClient = this.getTwilioClient();
+    await twilioClient.calls(callSid).update({ status: 'completed' });
+    console.log(`📴 Call ${callSid} completed via Twilio`);
+  }
+
+  /**
+   * Replaces what a live call is doing with new TwiML
+   */
+  static async redirectCall(callSid: string, twiml: string): Promise<void> {
+    const twilioClient = this.getTwilioClient();
+    await twilioClient.calls(callSid).update({ twiml });
+    console.log(`↪️  Call ${callSid} redirected via Twilio`);
+  }
+
+  static isMachineDetectionEnabled(): boolean {
+    return process.env.OUTBOUND_AMD !== 'false';
+  }
+
+  /**
+   * Where warm transfers go: TRANSFER_NUMBER, else TRANSFER_QUEUE, else null when transfers are off
+   */
+  static getTransferTarget(): TransferTarget | null {
+    if (process.env.TRANSFER_NUMBER) {
+      return { type: 'number', value: process.env.TRANSFER_NUMBER };
+    }
+    if (process.env.TRANSFER_QUEUE) {
+      return { type: 'queue', value: process.env.TRANSFER_QUEUE };
+    }
+    return null;
+  }
+
+  /**
+   * Records that the caller was handed over to a person, with the whisper summary
+   */
+  static async recordTransfer(callSid: string, target: TransferTarget, reason: string, summary: string): Promise<void> {
+    await Call.update({
+      transferred_at: new Date(),
+      transfer_target: `${target.type}:${target.value}`,
+      transfer_reason: reason,
+      transfer_summary: summary
+    }, {
+      where: { call_sid: callSid }
+    });
+  }
+
+  /**
+   * Creates or updates the call record when the media stream starts
+   */
+  static async recordCallStart(input: CallStartInput): Promise<Call> {
+    const existing = await Call.findOne({ where: { call_sid: input.callSid } });
+    
+    if (existing) {
+      return existing.update({
+        stream_sid: input.streamSid,
+        lead_id: input.leadId ?? existing.lead_id,
+        started_at: new Date()
+      });
+    }
+    
+    return Call.create({
+      call_sid: input.callSid,
+      stream_sid: input.streamSid,
+      lead_id: input.leadId,
+      direction: input.direction,
+      started_at: new Date()
+    });
+  }
+
+  /**
+   * Updates fields on a call record by Twilio call SID
+   */
+  static async updateCall(callSid: string, updates: Partial<Pick<Call, 'conversation_id' | 'lead_id' | 'outcome' | 'recording_path' | 'outcome_extraction' | 'answered_by'>>): Promise<void> {
+    await Call.update(updates, {
+      where: { call_sid: callSid }
+    });
+  }
+
+  static isFinalCallStatus(status: TwilioCallStatus): boolean {
+    return FINAL_CALL_STATUSES.includes(status);
+  }
+
+  /**
+   * The call outcome for a final status where the lead was never reached, or null
+   */
+  static getUnansweredOutcome(status: TwilioCallStatus): string | null {
+    return UNANSWERED_OUTCOMES[status] || null;
+  }
+
+  /**
+   * Records a status from Twilio's status callback on the call: when it started
+   * ringing and was answered, and once it's over, Twilio's duration for the whole
+   * call. Callbacks can arrive out of order, so nothing overwrites a final status.
+   * Resolves with the updated call, or null when there's no record of it.
+   */
+  static async recordCallStatus(callSid: string, status: TwilioCallStatus, durationSeconds?: number): Promise<Call | null> {
+    const call = await Call.findOne({ where: { call_sid: callSid } });
+    if (!call) return null;
+    
+    if (call.twilio_status && this.isFinalCallStatus(call.twilio_status)) {
+      return call;
+    }
+    
+    const now = new Date();
+    const updates: Partial<Call> = { twilio_status: status };
+    
+    if (status === 'ringing' && !call.ringing_at) {
+      updates.ringing_at = now;
+    } else if (status === 'in-progress' && !call.answered_at) {
+      updates.answered_at = now;
+    } else if (this.isFinalCallStatus(status)) {
+      updates.ended_at = call.ended_at || now;
+      if (durationSeconds !== undefined) {
+        updates.duration_seconds = durationSeconds;
+      }
+      if (!call.outcome) {
+        updates.outcome = this.getUnansweredOutcome(status) || 'completed';
+      }
+    }
+    
+    return call.update(updates);
+  }
+
+  /**
+   * Stores the end time, duration, outcome and conversation metrics of a call
+   */
+  static async recordCallEnd(callSid: string, input: CallEndInput): Promise<void> {
+    const call = await Call.findOne({ where: { call_sid: callSid } });
+    if (!call) {
+      console.warn(`⚠️  No call record found for ${callSid}`);
+      return;
+    }
+    
+    // Twilio's status callback may already have recorded the whole call's duration
+    const hasTwilioDuration = !!call.twilio_status && this.isFinalCallStatus(call.twilio_status) && call.duration_seconds != null;
+    const endedAt = hasTwilioDuration && call.ended_at ? call.ended_at : new Date();
+    
+    await call.update({
+      ended_at: endedAt,
+      duration_seconds: hasTwilioDuration
+        ? call.duration_seconds
+        : call.started_at
+          ? Math.round((endedAt.getTime() - call.started_at.getTime()) / 1000)
+          : undefined,
+      outcome: input.outcome,
+      ttft_ms: input.ttftMs,
+      audio_setup_ms: input.audioSetupMs,
+      total_responses: input.totalResponses,
+      total_audio_bytes: input.totalAudioBytes,
+      dtmf_inputs: input.dtmfInputs?.length ? input.dtmfInputs : undefined
+    });
+  }
+
+  /**
+   * Stores the ElevenLabs post-call transcript and analysis on the call with that
+   * conversation ID, resolving with the call or null when there is none
+   */
+  static async recordPostCallAnalysis(data: PostCallWebhookPayload['data']): Promise<Call | null> {
+    const call = await Call.findOne({ where: { conversation_id: data.conversation_id } });
+    if (!call) return null;
+    
+    const analysis = data.analysis || {};
+    return call.update({
+      elevenlabs_transcript: data.transcript,
+      transcript_summary: analysis.transcript_summary,
+      call_successful: analysis.call_successful,
+      data_collection_results: analysis.data_collection_results,
+      evaluation_criteria_results: analysis.evaluation_criteria_results
+    });
+  }
+
+  /**
+   * Gets a call record by Twilio call SID
+   */
+  static async getCallBySid(callSid: string): Promise<Call | null> {
+    return Call.findOne({ where: { call_sid: callSid } });
+  }
+
+  /**
+   * Gets the call history for a lead, most recent first
+   */
+  static async getCallsForLead(leadId: number): Promise<Call[]> {
+    return Call.findAll({
+      where: { lead_id: leadId },
+      order: [['created_at', 'DESC']]
+    });
+  }
+
   /**
    * Check if Twilio is properly configured
    */
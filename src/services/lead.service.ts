@@ -1,13 +1,20 @@
-import { Lead } from '../database/models/Lead';
-import { Op } from 'sequelize';
+import { Lead, LeadAttributes } from '../database/models/Lead';
+import { sequelize } from '../database/config';
+import { Op, WhereOptions } from 'sequelize';
 import * as Joi from 'joi';
 import { ContractLength } from '../types/contract';
+import { ConversationSettings } from '../types/elevenlabs';
+import { CallOutcome, OutcomeExtraction } from '../outcome-extractor';
 
 // Lead data input interface
 export interface LeadDataInput {
   leadId?: string;
   timestamp?: string;
   source?: string;
+  campaign?: string;
+  recordCalls?: boolean;       // Overrides the campaign's recording setting
+  recordingConsent?: boolean;  // Calls are only ever recorded with consent
+  conversation?: ConversationSettings;  // Overrides the campaign's agent settings
   data: {
     name?: string;
     moveInDate?: string;
@@ -31,11 +38,23 @@ export interface LeadDataInput {
   };
 }
 
+// How the agent should approach a call, derived from the lead's completeness
+export type ConversationStrategy = ReturnType<typeof LeadService.generateConversationStrategy>;
+
 // Lead validation schema
 const leadDataSchema = Joi.object({
   leadId: Joi.string().optional(),
   timestamp: Joi.string().isoDate().optional(),
   source: Joi.string().optional(),
+  campaign: Joi.string().max(100).optional(),
+  recordCalls: Joi.boolean().optional(),
+  recordingConsent: Joi.boolean().optional(),
+  conversation: Joi.object({
+    firstMessage: Joi.string().max(1000).optional(),
+    promptAdditions: Joi.string().max(5000).optional(),
+    language: Joi.string().min(2).max(10).optional(),
+    voiceId: Joi.string().optional()
+  }).optional(),
   data: Joi.object({
     name: Joi.string().optional(),
     moveInDate: Joi.string().isoDate().optional(),
@@ -58,6 +77,50 @@ const leadDataSchema = Joi.object({
   }).required()
 });
 
+// Maps the camelCase field names used by the webhook and the agent onto Lead columns
+const LEAD_FIELD_COLUMNS: Record<string, keyof LeadAttributes> = {
+  name: 'name',
+  moveInDate: 'move_in_date',
+  budget: 'budget',
+  yearlyWage: 'yearly_wage',
+  occupation: 'occupation',
+  contractLength: 'contract_length',
+  email: 'email',
+  preferredTime: 'preferred_time',
+  propertyType: 'property_type',
+  area: 'area'
+};
+
+// Property details the CRM can update, on top of the lead fields above
+const PROPERTY_FIELD_COLUMNS: Record<string, keyof LeadAttributes> = {
+  availability: 'availability',
+  addressLine1: 'address_line_1',
+  postcode: 'postcode',
+  bedroomCount: 'bedroom_count',
+  availabilityAt: 'availability_at',
+  propertyCost: 'property_cost'
+};
+
+const DATE_FIELDS = ['moveInDate', 'availabilityAt'];
+
+// Post-call outcomes that finish with a lead; callback_requested puts it back in the queue
+const COMPLETING_OUTCOMES: CallOutcome[] = ['viewing_booked', 'not_interested', 'wrong_number'];
+
+// Viewings can only be booked on weekdays between these hours (one hour slots),
+// in UK time whatever time zone the server runs in
+const VIEWING_TIME_ZONE = 'Europe/London';
+const VIEWING_START_HOUR = 9;
+const VIEWING_END_HOUR = 17;
+const VIEWING_DURATION_MS = 60 * 60 * 1000;
+
+// How many weekdays of slots the agent can ask for at once
+const MAX_VIEWING_SLOT_DAYS = 14;
+
+export interface ViewingSlot {
+  start: string;
+  label: string;
+}
+
 export class LeadService {
   /**
    * Analyzes lead data completeness
@@ -127,6 +190,10 @@ export class LeadService {
       property_cost: leadData.data.propertyCost,
       completeness_level: completenessLevel,
       source: leadData.source || 'webhook',
+      campaign: leadData.campaign,
+      record_calls: leadData.recordCalls,
+      recording_consent: leadData.recordingConsent ?? false,
+      conversation_overrides: leadData.conversation,
       status: 'pending'
     });
 
@@ -148,11 +215,9 @@ export class LeadService {
     });
     
     if (lead && callSid) {
-      // Update status to in_progress and log call SID
+      // Update status to in_progress (the call itself is tracked in the calls table)
       await lead.update({
-        status: 'in_progress',
-        call_sid: callSid,
-        call_started_at: new Date()
+        status: 'in_progress'
       });
     }
     
@@ -168,9 +233,10 @@ export class LeadService {
   }
 
   /**
-   * Updates lead status
+   * Updates lead status, optionally only while the lead still matches onlyIf.
+   * Resolves with whether the lead was updated.
    */
-  static async updateLeadStatus(leadId: number, status: Lead['status'], outcome?: string): Promise<void> {
+  static async updateLeadStatus(leadId: number, status: Lead['status'], outcome?: string, onlyIf: WhereOptions<LeadAttributes> = {}): Promise<boolean> {
     const updateData: any = { status };
     
     if (status === 'completed') {
@@ -181,16 +247,310 @@ export class LeadService {
       updateData.call_outcome = outcome;
     }
     
-    await Lead.update(updateData, {
-      where: { id: leadId }
+    const [updated] = await Lead.update(updateData, {
+      where: { ...onlyIf, id: leadId }
     });
+    return updated > 0;
   }
 
   /**
-   * Generates conversation strategy based on lead data
+   * Puts a lead back in the queue after a call that didn't reach them, e.g. voicemail,
+   * optionally only while the lead still matches onlyIf. Resolves with whether it moved.
    */
-  static generateConversationStrategy(lead: Lead) {
-    const missingFields = this.identifyMissingFields({
+  static async markForRetry(leadId: number, outcome: string, onlyIf: WhereOptions<LeadAttributes> = {}): Promise<boolean> {
+    const [updated] = await Lead.update({
+      status: 'pending',
+      call_outcome: outcome
+    }, {
+      where: { ...onlyIf, id: leadId }
+    });
+    return updated > 0;
+  }
+
+  /**
+   * Whether calls with this lead should be recorded: the lead's own setting,
+   * else its campaign's, and never without recording consent
+   */
+  static shouldRecordCall(lead: Lead | null): boolean {
+    if (!lead?.recording_consent) return false;
+
+    if (lead.record_calls !== null && lead.record_calls !== undefined) {
+      return lead.record_calls;
+    }
+
+    const recordedCampaigns = (process.env.CALL_RECORDING_CAMPAIGNS || '')
+      .split(',')
+      .map(campaign => campaign.trim())
+      .filter(Boolean);
+    if (lead.campaign && recordedCampaigns.includes(lead.campaign)) {
+      return true;
+    }
+
+    return process.env.CALL_RECORDING_ENABLED === 'true';
+  }
+
+  /**
+   * Updates a single lead field confirmed during a call and recomputes completeness
+   */
+  static async updateLeadField(lead: Lead, field: string, value: any): Promise<Lead> {
+    const column = LEAD_FIELD_COLUMNS[field];
+    if (!column) {
+      throw new Error(`Unknown lead field: ${field}`);
+    }
+
+    if (value === undefined) {
+      throw new Error(`Missing value for ${field}`);
+    }
+
+    const { error, value: validated } = leadDataSchema.extract(['data', field]).validate(value);
+    if (error) {
+      throw new Error(`Invalid value for ${field}: ${error.message}`);
+    }
+
+    lead.set(column, DATE_FIELDS.includes(field) ? new Date(validated) : validated);
+    lead.completeness_level = this.analyzeCompleteness(this.toLeadData(lead));
+    await lead.save();
+
+    return lead;
+  }
+
+  /**
+   * Updates a lead from a partial webhook-style data object, recomputing
+   * completeness. Resolves with the lead and the columns whose values changed.
+   */
+  static async updateLead(lead: Lead, data: Partial<LeadDataInput['data']>): Promise<{ lead: Lead; changedColumns: string[] }> {
+    const updateSchema = leadDataSchema.extract('data').fork(['phoneNumber'], field => field.forbidden());
+    const { error, value } = updateSchema.validate(data);
+    if (error) {
+      throw new Error(`Invalid lead data: ${error.message}`);
+    }
+
+    const columns = { ...LEAD_FIELD_COLUMNS, ...PROPERTY_FIELD_COLUMNS };
+    for (const [field, fieldValue] of Object.entries(value as Record<string, any>)) {
+      lead.set(columns[field], DATE_FIELDS.includes(field) ? new Date(fieldValue) : fieldValue);
+    }
+
+    const changedColumns = lead.changed() || [];
+    lead.completeness_level = this.analyzeCompleteness(this.toLeadData(lead));
+    await lead.save();
+
+    return { lead, changedColumns };
+  }
+
+  /**
+   * Applies a post-call extraction to the lead: each confirmed field that passes
+   * validation is saved, completeness is recomputed and the outcome recorded.
+   * Decisive outcomes complete the lead and a requested callback queues it again;
+   * an incomplete call leaves its status alone. A failure or transfer the call
+   * already recorded is never overwritten.
+   */
+  static async applyCallOutcome(lead: Lead, extraction: OutcomeExtraction): Promise<Lead> {
+    for (const [field, extracted] of Object.entries(extraction.fields)) {
+      if (!extracted) continue;
+
+      const { error, value } = leadDataSchema.extract(['data', field]).validate(extracted.value);
+      if (error) {
+        console.warn(`⚠️  Ignoring extracted ${field} "${extracted.value}": ${error.message}`);
+        continue;
+      }
+      lead.set(LEAD_FIELD_COLUMNS[field], DATE_FIELDS.includes(field) ? new Date(value) : value);
+    }
+
+    lead.completeness_level = this.analyzeCompleteness(this.toLeadData(lead));
+    await lead.save();
+
+    // Status and outcome are written conditionally, as the session and Twilio's callbacks write them too
+    const notSettled: WhereOptions<LeadAttributes> = {
+      status: { [Op.ne]: 'failed' },
+      [Op.or]: [{ call_outcome: { [Op.is]: sequelize.literal('NULL') } }, { call_outcome: { [Op.ne]: 'transferred_to_human' } }]
+    };
+    if (COMPLETING_OUTCOMES.includes(extraction.outcome)) {
+      await this.updateLeadStatus(lead.id, 'completed', extraction.outcome, notSettled);
+    } else if (extraction.outcome === 'callback_requested') {
+      await this.markForRetry(lead.id, extraction.outcome, notSettled);
+    } else {
+      // Nothing else has placed the lead yet, so at least record why the call didn't settle it
+      await Lead.update({ call_outcome: extraction.outcome }, { where: { id: lead.id, status: 'in_progress' } });
+    }
+
+    await lead.reload();
+    return lead;
+  }
+
+  /**
+   * Lists bookable viewing slots, starting tomorrow or when the property becomes
+   * available, leaving out slots already booked by other leads
+   */
+  static async getViewingSlots(lead: Lead, date?: string, days: number = 3): Promise<ViewingSlot[]> {
+    days = Math.min(Math.max(Math.floor(days), 1), MAX_VIEWING_SLOT_DAYS);
+
+    const day = this.firstViewingDay(lead);
+
+    if (date) {
+      const requested = new Date(date);
+      if (isNaN(requested.getTime())) {
+        throw new Error(`Invalid date: ${date}`);
+      }
+      const requestedDay = this.viewingDay(requested);
+      if (requestedDay < day) {
+        return [];
+      }
+      day.setTime(requestedDay.getTime());
+      days = 1;
+    }
+
+    const bookedTimes = await this.getBookedViewingTimes(lead, this.atViewingHour(day, 0));
+    const slots: ViewingSlot[] = [];
+    let collectedDays = 0;
+
+    while (collectedDays < days) {
+      if (this.isWeekday(day)) {
+        for (let hour = VIEWING_START_HOUR; hour < VIEWING_END_HOUR; hour++) {
+          const start = this.atViewingHour(day, hour);
+          if (bookedTimes.some(booked => Math.abs(booked - start.getTime()) < VIEWING_DURATION_MS)) continue;
+          slots.push({
+            start: start.toISOString(),
+            label: start.toLocaleString('en-GB', {
+              timeZone: VIEWING_TIME_ZONE, weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit'
+            })
+          });
+        }
+        collectedDays++;
+      } else if (date) {
+        break;
+      }
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return slots;
+  }
+
+  /**
+   * Books a viewing for the lead after checking it falls inside viewing hours,
+   * on or after the day the property becomes available and clear of other bookings
+   */
+  static async bookViewing(lead: Lead, datetime: string): Promise<Lead> {
+    const viewingAt = new Date(datetime);
+    if (isNaN(viewingAt.getTime())) {
+      throw new Error(`Invalid viewing time: ${datetime}`);
+    }
+
+    if (viewingAt <= new Date()) {
+      throw new Error('Viewing time must be in the future');
+    }
+
+    const { hour, minute } = this.toViewingTime(viewingAt);
+    const startsInHours = hour >= VIEWING_START_HOUR;
+    const endsInHours = hour + minute / 60 + 1 <= VIEWING_END_HOUR;
+    if (!this.isWeekday(this.viewingDay(viewingAt)) || !startsInHours || !endsInHours) {
+      throw new Error(`Viewings can only be booked Monday-Friday between ${VIEWING_START_HOUR}:00 and ${VIEWING_END_HOUR}:00 UK time`);
+    }
+
+    if (lead.availability_at && this.viewingDay(viewingAt) < this.viewingDay(new Date(lead.availability_at))) {
+      const availableFrom = new Date(lead.availability_at).toLocaleDateString('en-GB', {
+        timeZone: VIEWING_TIME_ZONE, weekday: 'long', day: 'numeric', month: 'long'
+      });
+      throw new Error(`The property is only available from ${availableFrom} - offer a viewing from then`);
+    }
+
+    await sequelize.transaction(async transaction => {
+      // Bookings are serialised so two calls can't both pass the clash check for one slot
+      await sequelize.query("SELECT pg_advisory_xact_lock(hashtext('viewing_bookings'))", { transaction });
+
+      // Any booking starting less than a viewing's length either side clashes
+      const clash = await Lead.findOne({
+        where: {
+          id: { [Op.ne]: lead.id },
+          viewing_at: {
+            [Op.gt]: new Date(viewingAt.getTime() - VIEWING_DURATION_MS),
+            [Op.lt]: new Date(viewingAt.getTime() + VIEWING_DURATION_MS)
+          }
+        },
+        transaction
+      });
+      if (clash) {
+        throw new Error('That viewing slot is already booked - offer another one');
+      }
+
+      await lead.update({
+        viewing_at: viewingAt,
+        call_outcome: 'viewing_booked'
+      }, { transaction });
+    });
+
+    return lead;
+  }
+
+  /**
+   * Start times of viewings other leads have booked from the given day on
+   */
+  private static async getBookedViewingTimes(lead: Lead, from: Date): Promise<number[]> {
+    const booked = await Lead.findAll({
+      attributes: ['viewing_at'],
+      where: {
+        id: { [Op.ne]: lead.id },
+        viewing_at: { [Op.gte]: new Date(from.getTime() - VIEWING_DURATION_MS) }
+      }
+    });
+    return booked.flatMap(other => other.viewing_at ? [other.viewing_at.getTime()] : []);
+  }
+
+  /**
+   * The first day viewings can be offered on: tomorrow, or the day the property
+   * becomes available if that is later
+   */
+  private static firstViewingDay(lead: Lead): Date {
+    const day = this.viewingDay(new Date());
+    day.setUTCDate(day.getUTCDate() + 1);
+
+    if (lead.availability_at) {
+      const availableDay = this.viewingDay(new Date(lead.availability_at));
+      if (availableDay > day) return availableDay;
+    }
+    return day;
+  }
+
+  /**
+   * Wall clock time of an instant in the viewing time zone
+   */
+  private static toViewingTime(date: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: VIEWING_TIME_ZONE, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric'
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+    return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') };
+  }
+
+  /**
+   * The calendar day an instant falls on in the viewing time zone, as midnight UTC
+   */
+  private static viewingDay(date: Date): Date {
+    const { year, month, day } = this.toViewingTime(date);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  /**
+   * The instant a viewing day (see viewingDay) reaches the given hour in the viewing time zone
+   */
+  private static atViewingHour(day: Date, hour: number): Date {
+    const guess = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour);
+    const local = this.toViewingTime(new Date(guess));
+    const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - guess;
+    return new Date(guess - offset);
+  }
+
+  private static isWeekday(day: Date): boolean {
+    const weekday = day.getUTCDay();
+    return weekday !== 0 && weekday !== 6;
+  }
+
+  /**
+   * Maps a lead record back to the webhook input shape used by the completeness checks
+   */
+  private static toLeadData(lead: Lead): LeadDataInput['data'] {
+    return {
       name: lead.name,
       moveInDate: lead.move_in_date?.toISOString(),
       budget: lead.budget,
@@ -198,7 +558,14 @@ export class LeadService {
       occupation: lead.occupation,
       contractLength: lead.contract_length,
       phoneNumber: lead.phone_number
-    });
+    };
+  }
+
+  /**
+   * Generates conversation strategy based on lead data
+   */
+  static generateConversationStrategy(lead: Lead) {
+    const missingFields = this.identifyMissingFields(this.toLeadData(lead));
 
     return {
       completenessLevel: lead.completeness_level,
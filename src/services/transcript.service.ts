@@ -0,0 +1,91 @@
+import { ConversationTurn } from '../database/models/ConversationTurn';
+
+// Conversation turn input interface
+export interface ConversationTurnInput {
+  callSid: string;
+  leadId?: number;
+  conversationId?: string;
+  speaker: 'user' | 'agent';
+  text: string;
+  offsetMs: number;
+}
+
+export interface CallTranscript {
+  callSid: string;
+  conversationId?: string;
+  startedAt: Date;
+  turns: Array<{
+    speaker: 'user' | 'agent';
+    text: string;
+    offsetMs: number;
+    spokenAt: Date;
+    heardMs?: number;
+  }>;
+}
+
+export class TranscriptService {
+  /**
+   * Stores a single user or agent turn
+   */
+  static async recordTurn(turn: ConversationTurnInput): Promise<ConversationTurn> {
+    return ConversationTurn.create({
+      call_sid: turn.callSid,
+      lead_id: turn.leadId,
+      conversation_id: turn.conversationId,
+      speaker: turn.speaker,
+      text: turn.text,
+      offset_ms: turn.offsetMs,
+      spoken_at: new Date()
+    });
+  }
+
+  /**
+   * Marks the call's latest agent turn as interrupted after `heardMs` of its audio played
+   */
+  static async markAgentTurnInterrupted(callSid: string, heardMs: number): Promise<void> {
+    const turn = await ConversationTurn.findOne({
+      where: { call_sid: callSid, speaker: 'agent' },
+      order: [['id', 'DESC']]
+    });
+
+    if (turn) {
+      await turn.update({ heard_ms: heardMs });
+    }
+  }
+
+  /**
+   * Gets all transcripts for a lead, grouped by call in chronological order
+   */
+  static async getTranscriptsForLead(leadId: number): Promise<CallTranscript[]> {
+    const turns = await ConversationTurn.findAll({
+      where: { lead_id: leadId },
+      order: [['spoken_at', 'ASC'], ['id', 'ASC']]
+    });
+
+    const transcripts = new Map<string, CallTranscript>();
+
+    for (const turn of turns) {
+      let transcript = transcripts.get(turn.call_sid);
+      if (!transcript) {
+        transcript = {
+          callSid: turn.call_sid,
+          conversationId: turn.conversation_id,
+          startedAt: turn.spoken_at,
+          turns: []
+        };
+        transcripts.set(turn.call_sid, transcript);
+      }
+
+      transcript.conversationId = transcript.conversationId || turn.conversation_id;
+      transcript.turns.push({
+        speaker: turn.speaker,
+        text: turn.text,
+        offsetMs: turn.offset_ms,
+        spokenAt: turn.spoken_at,
+        heardMs: turn.heard_ms ?? undefined
+      });
+    }
+
+    return Array.from(transcripts.values());
+  }
+}
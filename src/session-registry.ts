@@ -0,0 +1,46 @@
+import { ElevenLabsSession } from './elevenlabs-session';
+
+/**
+ * The sessions with a live call on this server, keyed by Twilio call SID, so
+ * API routes can reach into an ongoing conversation
+ */
+export class SessionRegistry {
+  private static instance: SessionRegistry;
+  private sessions: Map<string, ElevenLabsSession> = new Map();
+
+  static getInstance(): SessionRegistry {
+    if (!SessionRegistry.instance) {
+      SessionRegistry.instance = new SessionRegistry();
+    }
+    return SessionRegistry.instance;
+  }
+
+  register(callSid: string, session: ElevenLabsSession): void {
+    this.sessions.set(callSid, session);
+  }
+
+  /**
+   * Removes the session, unless the call SID has since been taken by another one
+   */
+  unregister(callSid: string, session: ElevenLabsSession): void {
+    if (this.sessions.get(callSid) === session) {
+      this.sessions.delete(callSid);
+    }
+  }
+
+  get(callSid: string): ElevenLabsSession | undefined {
+    return this.sessions.get(callSid);
+  }
+
+  forLead(leadId: number): ElevenLabsSession[] {
+    return Array.from(this.sessions.values()).filter(session => session.leadId === leadId);
+  }
+
+  get callSids(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+}
@@ -0,0 +1,84 @@
+import WebSocket from 'ws';
+import { SessionRegistry } from './session-registry';
+
+/**
+ * Streams live call events to supervisor WebSocket clients. A client sees every
+ * call unless it subscribes to a single call SID, either with ?callSid= when
+ * connecting or by sending {"type": "subscribe", "callSid": "CA..."} (send
+ * {"type": "unsubscribe"} to go back to all calls).
+ */
+
+export type CallEventType = 'call_started' | 'lead_loaded' | 'transcript' | 'interruption' | 'latency' | 'transferred' | 'call_status' | 'call_ended';
+
+export interface CallEvent {
+  type: CallEventType;
+  callSid: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+export class SupervisorHub {
+  private static instance: SupervisorHub;
+  // Each client's subscribed call SID, or null for all calls
+  private clients: Map<WebSocket, string | null> = new Map();
+
+  static getInstance(): SupervisorHub {
+    if (!SupervisorHub.instance) {
+      SupervisorHub.instance = new SupervisorHub();
+    }
+    return SupervisorHub.instance;
+  }
+
+  addClient(ws: WebSocket, callSid: string | null = null): void {
+    this.clients.set(ws, callSid);
+    console.log(`👀 Supervisor connected (${callSid || 'all calls'}) - ${this.clients.size} watching`);
+
+    ws.on('message', (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'subscribe' || message.type === 'unsubscribe') {
+          const subscription = message.type === 'subscribe' && message.callSid ? String(message.callSid) : null;
+          this.clients.set(ws, subscription);
+          this.send(ws, { type: 'subscribed', callSid: subscription });
+        }
+      } catch (error) {
+        this.send(ws, { type: 'error', error: 'Messages must be JSON' });
+      }
+    });
+
+    ws.on('close', () => {
+      this.clients.delete(ws);
+      console.log(`👀 Supervisor disconnected - ${this.clients.size} watching`);
+    });
+
+    ws.on('error', (error: Error) => {
+      console.error('❌ Supervisor WebSocket error:', error);
+    });
+
+    this.send(ws, {
+      type: 'connected',
+      callSid,
+      activeCalls: SessionRegistry.getInstance().callSids
+    });
+  }
+
+  /**
+   * Sends an event to every supervisor watching the call
+   */
+  publish(callSid: string, type: CallEventType, data: Record<string, any> = {}): void {
+    if (this.clients.size === 0 || !callSid) return;
+
+    const event: CallEvent = { type, callSid, timestamp: new Date().toISOString(), data };
+    for (const [ws, subscription] of this.clients) {
+      if (subscription === null || subscription === callSid) {
+        this.send(ws, event);
+      }
+    }
+  }
+
+  private send(ws: WebSocket, message: object): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+}
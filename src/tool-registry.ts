@@ -0,0 +1,110 @@
+import { LeadService } from './services/lead.service';
+import { CallService } from './services/call.service';
+import { ClientToolCall, ClientToolResult, ToolContext, ToolHandler } from './types/tools';
+
+export class ToolRegistry {
+  private handlers: Map<string, ToolHandler> = new Map();
+
+  /**
+   * Creates a registry with the server-side tools the agent is configured to call
+   */
+  static createDefault(): ToolRegistry {
+    const registry = new ToolRegistry();
+
+    registry.register('update_lead_field', async ({ field, value }, { lead }) => {
+      if (!lead) throw new Error('No lead loaded for this call');
+      if (!field) throw new Error('Missing required parameter: field');
+      if (value === undefined) throw new Error('Missing required parameter: value');
+
+      await LeadService.updateLeadField(lead, field, value);
+      return {
+        updated: field,
+        completeness: lead.completeness_level
+      };
+    });
+
+    registry.register('check_viewing_slots', async ({ date, days }, { lead }) => {
+      if (!lead) throw new Error('No lead loaded for this call');
+
+      if (days !== undefined && days !== null && !Number.isFinite(Number(days))) {
+        throw new Error(`Invalid number of days: ${days}`);
+      }
+
+      const slots = await LeadService.getViewingSlots(lead, date, days ? Number(days) : undefined);
+      return {
+        slots,
+        message: slots.length > 0 ? `${slots.length} slots available` : 'No slots available for that date'
+      };
+    });
+
+    registry.register('book_viewing', async ({ datetime }, { lead }) => {
+      if (!lead) throw new Error('No lead loaded for this call');
+      if (!datetime) throw new Error('Missing required parameter: datetime');
+
+      await LeadService.bookViewing(lead, datetime);
+      return {
+        booked: true,
+        viewing_at: lead.viewing_at?.toISOString()
+      };
+    });
+
+    registry.register('end_call', async ({ reason }, { requestEndCall }) => {
+      requestEndCall(reason || 'agent_ended_call');
+      return { ending: true };
+    });
+
+    registry.register('transfer_to_human', async ({ reason }, { requestTransfer }) => {
+      if (!CallService.getTransferTarget()) {
+        throw new Error('Transfers are not available - offer a call back from the team instead');
+      }
+
+      if (!requestTransfer(reason || 'caller_requested_human')) {
+        throw new Error('The call is already ending - it can no longer be transferred');
+      }
+      return { transferring: true };
+    });
+
+    return registry;
+  }
+
+  register(name: string, handler: ToolHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  has(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  /**
+   * Runs a tool call and wraps the outcome (or error) as a client_tool_result message
+   */
+  async execute(toolCall: ClientToolCall, context: ToolContext): Promise<ClientToolResult> {
+    const handler = this.handlers.get(toolCall.tool_name);
+
+    if (!handler) {
+      return {
+        type: 'client_tool_result',
+        tool_call_id: toolCall.tool_call_id,
+        result: `Unknown tool: ${toolCall.tool_name}`,
+        is_error: true
+      };
+    }
+
+    try {
+      const result = await handler(toolCall.parameters || {}, context);
+      return {
+        type: 'client_tool_result',
+        tool_call_id: toolCall.tool_call_id,
+        result: typeof result === 'string' ? result : JSON.stringify(result),
+        is_error: false
+      };
+    } catch (error: any) {
+      return {
+        type: 'client_tool_result',
+        tool_call_id: toolCall.tool_call_id,
+        result: error.message || 'Tool execution failed',
+        is_error: true
+      };
+    }
+  }
+}
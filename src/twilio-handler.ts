@@ -1,6 +1,37 @@
 import { Request, Response } from 'express';
-import { TwilioWebhookRequest } from './types/twilio';
+import { TwilioWebhookRequest, TwilioStatusCallbackRequest, TwilioCallStatus, TransferTarget } from './types/twilio';
 import { ConnectionPool } from './connection-pool';
+import { CallService } from './services/call.service';
+import { LeadService } from './services/lead.service';
+import { SessionRegistry } from './session-registry';
+import { SupervisorHub } from './supervisor-hub';
+import { buildDynamicVariables } from './dynamic-variables';
+import { renderTemplate } from './agent-template';
+import { Lead } from './database/models/Lead';
+import { createStreamToken, getPublicBaseUrl } from './middleware/auth';
+
+const TRANSFER_ANNOUNCEMENT = 'Please hold while I put you through to a member of the team.';
+
+// Left after the beep when an outbound call reaches voicemail; {{variables}} as in the agent's dynamic variables
+const VOICEMAIL_TEMPLATE = process.env.VOICEMAIL_TEMPLATE
+  || "{{custom_greeting}} It's Charlie from Lobby, calling about {{property_description}}. Please give us a call back on this number when you get a chance. Thanks, bye!";
+
+const buildVoicemailMessage = (lead: Lead | null): string => {
+  const { variables } = buildDynamicVariables({ lead, strategy: null });
+  return renderTemplate(VOICEMAIL_TEMPLATE, {
+    ...variables,
+    property_description: lead?.address_line_1 ? `the property at ${lead.address_line_1}` : 'your property enquiry'
+  });
+};
+
+const CALL_STATUSES: TwilioCallStatus[] = ['queued', 'initiated', 'ringing', 'in-progress', 'completed', 'busy', 'no-answer', 'canceled', 'failed'];
+
+// Callbacks that act on live calls and leads must name our own Twilio account
+const isFromOwnAccount = (req: Request): boolean =>
+  !!process.env.TWILIO_ACCOUNT_SID && req.body.AccountSid === process.env.TWILIO_ACCOUNT_SID;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
 export class TwilioHandler {
   static async handleIncomingCall(req: Request, res: Response): Promise<void> {
@@ -18,6 +49,13 @@ export class TwilioHandler {
     
     console.log('👤 Lead phone number:', leadPhoneNumber);
     
+    const streamToken = createStreamToken(webhookData.CallSid);
+    if (!streamToken) {
+      console.error('❌ WEBHOOK_SECRET or TWILIO_AUTH_TOKEN must be set to sign media streams - rejecting call');
+      res.status(500).json({ error: 'Media stream secret not configured' });
+      return;
+    }
+    
     // Pre-connect to ElevenLabs while phone is ringing
     // Pass phone number along with call SID for lead lookup
     ConnectionPool.getInstance().getOrCreateConnection(
@@ -25,16 +63,18 @@ export class TwilioHandler {
       leadPhoneNumber // Pass the correct phone number based on call direction
     );
     
-    const baseUrl = process.env.WEBHOOK_BASE_URL || process.env.NGROK_URL || `${req.protocol}://${req.get('host')}`;
-    const wsUrl = baseUrl.replace(/^https?:\/\//, 'wss://') + '/ws';
+    const wsUrl = getPublicBaseUrl(req).replace(/^https?:\/\//, 'wss://') + '/ws';
     
     console.log('🔗 WebSocket URL:', wsUrl);
     
+    // The token lets the media stream prove it comes from this TwiML
     const twiml = `<?xml version="1.0" encoding="UTF-8"?>
     <Response>
       <Connect>
         <Stream url="${wsUrl}">
           <Parameter name="from" value="${leadPhoneNumber}" />
+          <Parameter name="direction" value="${webhookData.Direction || 'inbound'}" />
+          <Parameter name="token" value="${streamToken}" />
         </Stream>
       </Connect>
     </Response>`;
@@ -44,6 +84,155 @@ export class TwilioHandler {
     res.send(twiml);
   }
   
+  /**
+   * TwiML that hands a live call to a person: dials the staff number, whose
+   * answerer first hears the whisper from `whisperUrl`, or places the caller in
+   * the staff queue
+   */
+  static buildTransferTwiml(target: TransferTarget, whisperUrl: string | null, announce: boolean): string {
+    const announcement = announce ? `<Say>${escapeXml(TRANSFER_ANNOUNCEMENT)}</Say>` : '';
+    const whisper = whisperUrl ? ` url="${escapeXml(whisperUrl)}"` : '';
+    const destination = target.type === 'number'
+      ? `<Dial><Number${whisper}>${escapeXml(target.value)}</Number></Dial>`
+      : `<Enqueue>${escapeXml(target.value)}</Enqueue>`;
+    
+    return `<?xml version="1.0" encoding="UTF-8"?><Response>${announcement}${destination}</Response>`;
+  }
+  
+  /**
+   * Plays the transfer summary to the staff member before they are connected.
+   * Used as the <Number url> of a transfer, or as the <Queue url> when staff
+   * dial the transfer queue (where CallSid is the waiting caller's).
+   */
+  static async handleTransferWhisper(req: Request, res: Response): Promise<void> {
+    const callSid = (req.query.callSid as string) || req.body.ParentCallSid || req.body.CallSid;
+    const call = callSid ? await CallService.getCallBySid(callSid).catch(() => null) : null;
+    const summary = call?.transfer_summary || 'Transferred call from the AI assistant.';
+    
+    console.log(`🤫 Whispering transfer summary for call ${callSid}`);
+    res.type('text/xml');
+    res.send(`<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(summary)}</Say></Response>`);
+  }
+  
+  /**
+   * Receives Twilio's asynchronous answering machine detection result for an
+   * outbound call. When a machine answered, the conversation is stopped and the
+   * call either leaves the voicemail (VOICEMAIL_MODE=leave, the default) or
+   * hangs up, and the lead goes back to pending so it can be called again.
+   * A fax line is hung up on and fails the lead instead.
+   */
+  static async handleAmdStatus(req: Request, res: Response): Promise<void> {
+    const { CallSid: callSid, AnsweredBy: answeredBy } = req.body;
+    if (!callSid || !isFromOwnAccount(req)) {
+      res.status(403).json({ error: 'Unknown call or account' });
+      return;
+    }
+    
+    console.log(`🤖 Answering machine detection for ${callSid}: ${answeredBy}`);
+    
+    try {
+      if (!answeredBy || answeredBy === 'human' || answeredBy === 'unknown') {
+        await CallService.updateCall(callSid, { answered_by: answeredBy });
+        res.sendStatus(200);
+        return;
+      }
+      
+      // machine_end_* results come after the greeting, once the beep (or silence) is heard
+      const isFax = answeredBy === 'fax';
+      const canLeaveMessage = answeredBy.startsWith('machine_end') && process.env.VOICEMAIL_MODE !== 'hangup';
+      const outcome = isFax ? 'fax_detected' : canLeaveMessage ? 'voicemail_left' : 'machine_detected';
+      
+      SessionRegistry.getInstance().get(callSid)?.endForMachine(outcome);
+      
+      const call = await CallService.getCallBySid(callSid);
+      const lead = call?.lead_id ? await LeadService.getLeadById(call.lead_id) : null;
+      
+      if (canLeaveMessage) {
+        await CallService.redirectCall(callSid, TwilioHandler.buildVoicemailTwiml(buildVoicemailMessage(lead)));
+      } else {
+        await CallService.hangupCall(callSid);
+      }
+      
+      await CallService.updateCall(callSid, { answered_by: answeredBy, outcome });
+      if (lead && isFax) {
+        // Calling a fax line again would never reach the lead
+        await LeadService.updateLeadStatus(lead.id, 'failed', outcome);
+      } else if (lead) {
+        await LeadService.markForRetry(lead.id, outcome);
+      }
+      
+      console.log(`📼 ${outcome === 'voicemail_left' ? 'Voicemail left' : isFax ? 'Fax detected, hung up' : 'Machine detected, hung up'} for call ${callSid}`);
+      res.sendStatus(200);
+    } catch (error) {
+      console.error('❌ Error handling answering machine detection:', error);
+      res.sendStatus(500);
+    }
+  }
+  
+  /**
+   * Receives Twilio's status callback as an outbound call is queued, rings, is
+   * answered and ends. The call record keeps the lifecycle and Twilio's duration;
+   * a lead that was never reached (busy, no answer, canceled) goes back to
+   * pending, a failed call fails the lead, and an answered call that ended
+   * without an outcome is queued to be called again.
+   */
+  static async handleCallStatus(req: Request, res: Response): Promise<void> {
+    const { CallSid: callSid, CallStatus: status, CallDuration: callDuration } = req.body as TwilioStatusCallbackRequest;
+    
+    if (!callSid || !CALL_STATUSES.includes(status)) {
+      res.status(400).json({ error: 'Missing CallSid or unknown CallStatus' });
+      return;
+    }
+    if (!isFromOwnAccount(req)) {
+      res.status(403).json({ error: 'Unknown account' });
+      return;
+    }
+    
+    console.log(`📶 Call ${callSid} status: ${status}${callDuration ? ` (${callDuration}s)` : ''}`);
+    
+    try {
+      const durationSeconds = callDuration !== undefined ? parseInt(callDuration) : undefined;
+      const call = await CallService.recordCallStatus(callSid, status, Number.isNaN(durationSeconds) ? undefined : durationSeconds);
+      
+      // Still acknowledged, so Twilio doesn't log an error for calls placed elsewhere
+      if (!call) {
+        console.warn(`⚠️  No call record found for ${callSid}`);
+        res.sendStatus(200);
+        return;
+      }
+      
+      SupervisorHub.getInstance().publish(callSid, 'call_status', {
+        status,
+        durationSeconds: call.duration_seconds ?? null
+      });
+      
+      if (!CallService.isFinalCallStatus(status) || call.twilio_status !== status || !call.lead_id) {
+        res.sendStatus(200);
+        return;
+      }
+      
+      // Only leads still waiting on this call move; a finished conversation or AMD has already placed them.
+      // The check is part of the write, as the session saves its outcome as the call ends too.
+      const outcome = CallService.getUnansweredOutcome(status) || 'call_incomplete';
+      const moved = status === 'failed'
+        ? await LeadService.updateLeadStatus(call.lead_id, 'failed', outcome, { status: 'in_progress' })
+        : await LeadService.markForRetry(call.lead_id, outcome, { status: 'in_progress' });
+      
+      if (moved) {
+        console.log(`🔁 Lead ${call.lead_id} moved on from in_progress after call ${status}`);
+      }
+      
+      res.sendStatus(200);
+    } catch (error) {
+      console.error('❌ Error handling call status callback:', error);
+      res.sendStatus(500);
+    }
+  }
+  
+  static buildVoicemailTwiml(message: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(message)}</Say><Hangup/></Response>`;
+  }
+  
   static handleMediaStream(req: Request, res: Response): void {
     console.log('🎵 Media stream webhook called');
     res.sendStatus(200);
@@ -5,11 +5,12 @@ export interface ElevenLabsConfig {
   language?: string;
 }
 
+// Sent as conversation_config_override; only the fields present replace the agent's settings
 export interface ConversationConfig {
-  agent: {
-    prompt: { prompt: string };
-    first_message: string;
-    language: string;
+  agent?: {
+    prompt?: { prompt: string };
+    first_message?: string;
+    language?: string;
   };
   tts?: {
     voice_id?: string;
@@ -19,6 +20,26 @@ export interface ConversationConfig {
   };
 }
 
+// The parts of the agents API response (GET /v1/convai/agents/:agentId) we read
+export interface AgentConfigResponse {
+  agent_id: string;
+  conversation_config?: {
+    agent?: {
+      prompt?: { prompt?: string };
+      first_message?: string;
+      language?: string;
+    };
+  };
+}
+
+// Per-campaign or per-lead conversation settings, merged into a ConversationConfig
+export interface ConversationSettings {
+  firstMessage?: string;
+  promptAdditions?: string;
+  language?: string;
+  voiceId?: string;
+}
+
 export interface ElevenLabsMessage {
   type: string;
   [key: string]: any;
@@ -49,4 +70,30 @@ export interface ConversationInitiationMetadata {
   conversation_id: string;
   agent_output_audio_format: string;
   user_input_audio_format: string;
-} 
\ No newline at end of file
+} 
+// Body of the post-call webhook ElevenLabs sends once a conversation has been analysed
+export interface PostCallWebhookPayload {
+  type: 'post_call_transcription' | 'post_call_audio' | string;
+  event_timestamp: number;
+  data: {
+    agent_id: string;
+    conversation_id: string;
+    status?: string;
+    transcript?: Array<{
+      role: 'agent' | 'user';
+      message: string | null;
+      time_in_call_secs?: number;
+      [key: string]: any;
+    }>;
+    metadata?: Record<string, any>;
+    analysis?: PostCallAnalysis;
+    [key: string]: any;
+  };
+}
+
+export interface PostCallAnalysis {
+  call_successful?: 'success' | 'failure' | 'unknown';
+  transcript_summary?: string;
+  evaluation_criteria_results?: Record<string, { criteria_id: string; result: string; rationale: string }>;
+  data_collection_results?: Record<string, { data_collection_id: string; value: any; rationale: string }>;
+}
@@ -0,0 +1,26 @@
+import { Lead } from '../database/models/Lead';
+
+export interface ClientToolCall {
+  tool_name: string;
+  tool_call_id: string;
+  parameters?: Record<string, any>;
+}
+
+export interface ClientToolResult {
+  type: 'client_tool_result';
+  tool_call_id: string;
+  result: string;
+  is_error: boolean;
+}
+
+/**
+ * Call-scoped state handed to every tool handler
+ */
+export interface ToolContext {
+  callSid: string;
+  lead: Lead | null;
+  requestEndCall: (reason: string) => void;
+  requestTransfer: (reason: string) => boolean;  // Hands the caller to a person once the agent finishes speaking; false if the call is already ending
+}
+
+export type ToolHandler = (parameters: Record<string, any>, context: ToolContext) => Promise<any>;
@@ -7,8 +7,24 @@ export interface TwilioWebhookRequest {
   AccountSid?: string;
 }
 
+export type TwilioCallStatus = 'queued' | 'initiated' | 'ringing' | 'in-progress' | 'completed' | 'busy' | 'no-answer' | 'canceled' | 'failed';
+
+// Posted to the statusCallback as an outbound call moves through its lifecycle
+export interface TwilioStatusCallbackRequest extends TwilioWebhookRequest {
+  CallStatus: TwilioCallStatus;
+  CallDuration?: string;
+  SequenceNumber?: string;
+  Timestamp?: string;
+}
+
+// Where a warm transfer sends the caller: a staff phone number, or a queue staff answer from
+export interface TransferTarget {
+  type: 'number' | 'queue';
+  value: string;
+}
+
 export interface TwilioMediaMessage {
-  event: 'connected' | 'start' | 'media' | 'stop';
+  event: 'connected' | 'start' | 'media' | 'stop' | 'mark' | 'dtmf';
   sequenceNumber?: string;
   start?: {
     streamSid: string;
@@ -27,6 +43,13 @@ export interface TwilioMediaMessage {
     accountSid: string;
     callSid: string;
   };
+  mark?: {
+    name: string;
+  };
+  dtmf?: {
+    track: string;
+    digit: string;
+  };
 }
 
 export interface TwilioResponse {
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decodeAlaw, decodeMulaw, encodeAlaw, encodeMulaw } from '../src/audio/g711';
+import { Resampler } from '../src/audio/resampler';
+import { fromInt16Samples, toInt16Samples } from '../src/audio/pcm';
+
+const ALL_CODES = Uint8Array.from({ length: 256 }, (_, code) => code);
+
+function sine(frequency: number, sampleRate: number, length: number, amplitude: number = 10000): Int16Array {
+  return Int16Array.from({ length }, (_, i) => Math.round(amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate)));
+}
+
+// Signal-to-noise ratio of `actual` against `expected`, in dB
+function snrDb(expected: ArrayLike<number>, actual: ArrayLike<number>, from: number = 0, to: number = expected.length): number {
+  let signal = 0;
+  let noise = 0;
+  for (let i = from; i < to; i++) {
+    signal += expected[i] ** 2;
+    noise += (expected[i] - actual[i]) ** 2;
+  }
+  return 10 * Math.log10(signal / noise);
+}
+
+// Streaming output can end a sample or two short of the exact ratio
+function assertLengthNear(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) <= 2, `expected about ${expected} samples, got ${actual}`);
+}
+
+function resampleAll(input: Int16Array, fromRate: number, toRate: number): Int16Array {
+  const resampler = new Resampler(fromRate, toRate);
+  const head = Int16Array.from(resampler.process(input));
+  const tail = resampler.flush();
+  const output = new Int16Array(head.length + tail.length);
+  output.set(head);
+  output.set(tail, head.length);
+  return output;
+}
+
+test('μ-law re-encodes every decoded code to the same value', () => {
+  const decoded = decodeMulaw(ALL_CODES);
+  // 0x7F and 0xFF are -0 and +0, so compare values rather than codes
+  assert.deepEqual(decodeMulaw(encodeMulaw(decoded)), decoded);
+});
+
+test('A-law re-encodes every decoded code to the same code', () => {
+  assert.deepEqual(encodeAlaw(decodeAlaw(ALL_CODES)), ALL_CODES);
+});
+
+test('μ-law and A-law round trips keep speech-level audio above 35dB SNR', () => {
+  const samples = sine(440, 8000, 8000);
+  assert.ok(snrDb(samples, decodeMulaw(encodeMulaw(samples))) > 35);
+  assert.ok(snrDb(samples, decodeAlaw(encodeAlaw(samples))) > 35);
+});
+
+test('G.711 encoders handle the full 16-bit range', () => {
+  const extremes = Int16Array.from([-32768, -32767, -1, 0, 1, 32767]);
+  const mulaw = decodeMulaw(encodeMulaw(extremes));
+  const alaw = decodeAlaw(encodeAlaw(extremes));
+  for (let i = 0; i < extremes.length; i++) {
+    assert.ok(Math.abs(mulaw[i] - extremes[i]) <= 1024, `μ-law ${extremes[i]} → ${mulaw[i]}`);
+    assert.ok(Math.abs(alaw[i] - extremes[i]) <= 1024, `A-law ${extremes[i]} → ${alaw[i]}`);
+  }
+});
+
+test('G.711 codecs write into a large enough output buffer', () => {
+  const samples = sine(440, 8000, 160);
+  const codes = new Uint8Array(320);
+  const encoded = encodeMulaw(samples, codes);
+  assert.equal(encoded.buffer, codes.buffer);
+  assert.equal(encoded.length, 160);
+});
+
+test('8kHz → 16kHz upsampling matches the tone sampled at 16kHz', () => {
+  const upsampled = resampleAll(sine(1000, 8000, 800), 8000, 16000);
+  assertLengthNear(upsampled.length, 1600);
+  // Skip the edges, where the kernel reaches past the clip
+  assert.ok(snrDb(sine(1000, 16000, 1600), upsampled, 100, 1500) > 35);
+});
+
+test('16kHz → 8kHz downsampling matches the tone sampled at 8kHz', () => {
+  const downsampled = resampleAll(sine(1000, 16000, 1600), 16000, 8000);
+  assertLengthNear(downsampled.length, 800);
+  assert.ok(snrDb(sine(1000, 8000, 800), downsampled, 50, 750) > 35);
+});
+
+test('8kHz → 16kHz → 8kHz round trip reproduces the original', () => {
+  const original = sine(440, 8000, 800);
+  const roundTrip = resampleAll(resampleAll(original, 8000, 16000), 16000, 8000);
+  assertLengthNear(roundTrip.length, original.length);
+  assert.ok(snrDb(original, roundTrip, 50, 750) > 35);
+});
+
+test('downsampling filters out tones above the new Nyquist frequency', () => {
+  const downsampled = resampleAll(sine(6000, 16000, 1600), 16000, 8000);
+  const peak = downsampled.subarray(50, 750).reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+  assert.ok(peak < 500, `6kHz tone leaked through at ${peak}`);
+});
+
+test('resampling in 20ms frames gives the same audio as one block', () => {
+  const input = sine(440, 8000, 1600);
+  const whole = resampleAll(input, 8000, 16000);
+
+  const resampler = new Resampler(8000, 16000);
+  const framed: number[] = [];
+  for (let offset = 0; offset < input.length; offset += 160) {
+    framed.push(...resampler.process(input.subarray(offset, offset + 160)));
+  }
+  framed.push(...resampler.flush());
+
+  assert.deepEqual(Int16Array.from(framed), whole);
+});
+
+test('PCM buffers convert to samples and back, aligned or not', () => {
+  const samples = Int16Array.from([0, 1, -1, 32767, -32768, 1234]);
+  const bytes = fromInt16Samples(samples);
+  assert.deepEqual(toInt16Samples(bytes), samples);
+
+  const unaligned = Buffer.alloc(bytes.length + 1).subarray(1);
+  bytes.copy(unaligned);
+  assert.deepEqual(toInt16Samples(unaligned), samples);
+});
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  buildDynamicVariables,
+  DynamicVariableDefinition,
+  fillUnresolvedVariables,
+  findUnresolvedVariables,
+  formatBedrooms,
+  formatContractLength,
+  formatCurrency,
+  formatLongDate
+} from '../src/dynamic-variables';
+import { Lead } from '../src/database/models/Lead';
+import { ConversationStrategy } from '../src/services/lead.service';
+import { ContractLength } from '../src/types/contract';
+
+// Only the columns the schema reads; a plain object stands in for the model
+const makeLead = (fields: Partial<Record<keyof Lead, unknown>>): Lead =>
+  ({ id: 7, phone_number: '+447700900123', ...fields } as unknown as Lead);
+
+const build = (lead: Lead | null, overrides: { strategy?: ConversationStrategy | null; phoneNumber?: string } = {}) =>
+  buildDynamicVariables({ lead, strategy: null, ...overrides });
+
+test('lead columns are formatted for the agent', () => {
+  const { variables, missingRequired } = build(makeLead({
+    name: 'Sam',
+    budget: 1450.4,
+    yearly_wage: 42000,
+    move_in_date: new Date('2026-11-03T12:00:00Z'),
+    contract_length: ContractLength.TWELVE_MONTHS,
+    bedroom_count: 2,
+    property_cost: 1600
+  }));
+
+  assert.equal(variables.custom_greeting, 'Hi Sam!');
+  assert.equal(variables.lead_id, '7');
+  assert.equal(variables.lead_budget, '£1450');
+  assert.equal(variables.lead_yearly_wage, '£42000');
+  assert.equal(variables.lead_move_in_date, '3 November 2026');
+  assert.equal(variables.lead_contract_length, '12 months');
+  assert.equal(variables.property_bedrooms, '2 bedrooms');
+  assert.equal(variables.property_monthly_cost, '£1600');
+  assert.deepEqual(missingRequired, []);
+});
+
+test('formatters handle singular bedrooms and unknown contract lengths', () => {
+  assert.equal(formatBedrooms(1), '1 bedroom');
+  assert.equal(formatCurrency('950'), '£950');
+  assert.equal(formatLongDate('2026-01-15T12:00:00Z'), '15 January 2026');
+  assert.equal(formatContractLength(ContractLength.LT_SIX_MONTHS), 'Less than 6 months');
+  assert.equal(formatContractLength('rolling' as ContractLength), 'rolling');
+});
+
+test('empty values are sent as empty strings or their default', () => {
+  const { variables } = build(makeLead({ name: '', email: null, area: undefined }));
+
+  assert.equal(variables.custom_greeting, 'Hello!');
+  assert.equal(variables.lead_name, '');
+  assert.equal(variables.lead_email, '');
+  assert.equal(variables.lead_area, '');
+  assert.equal(variables.missing_fields, 'none');
+  assert.equal(variables.has_missing_fields, 'no');
+});
+
+test('zero is treated as no value rather than formatted', () => {
+  const { variables } = build(makeLead({ budget: 0, bedroom_count: 0, property_cost: 0 }));
+
+  assert.equal(variables.lead_budget, '');
+  assert.equal(variables.property_bedrooms, '');
+  assert.equal(variables.property_monthly_cost, '');
+});
+
+test('every schema variable is sent even without a lead', () => {
+  const { variables, missingRequired } = build(null, { phoneNumber: '+447700900456' });
+
+  assert.equal(variables.lead_phone, '+447700900456');
+  assert.equal(variables.lead_context, '');
+  assert.equal(variables.conversation_summary, '');
+  assert.deepEqual(missingRequired, []);
+});
+
+test('required variables that resolve to nothing are reported', () => {
+  const schema: DynamicVariableDefinition[] = [
+    { name: 'lead_phone', source: ({ lead, phoneNumber }) => lead?.phone_number || phoneNumber, required: true },
+    { name: 'greeting', source: 'name', required: true, default: 'Hello!' }
+  ];
+  const { variables, missingRequired } = buildDynamicVariables({ lead: null, strategy: null }, schema);
+
+  assert.deepEqual(variables, { lead_phone: '', greeting: 'Hello!' });
+  assert.deepEqual(missingRequired, ['lead_phone']);
+});
+
+test('missing fields come from the conversation strategy', () => {
+  const strategy = { completenessLevel: 'PARTIAL', missingFields: ['budget', 'occupation'], existingData: {} } as unknown as ConversationStrategy;
+  const { variables } = build(makeLead({}), { strategy });
+
+  assert.equal(variables.missing_fields, 'budget, occupation');
+  assert.equal(variables.has_missing_fields, 'yes');
+  assert.match(variables.lead_context, /MISSING REQUIRED FIELDS: budget, occupation/);
+});
+
+test('fillUnresolvedVariables fills only the referenced names the set lacks', () => {
+  const variables: Record<string, string> = { lead_name: '', lead_budget: '£1200' };
+  const referenced = ['lead_name', 'lead_budget', 'agent_name', 'office_hours'];
+
+  assert.deepEqual(findUnresolvedVariables(variables, referenced), ['agent_name', 'office_hours']);
+
+  const filled = fillUnresolvedVariables(variables, referenced);
+  const fallback = process.env.UNRESOLVED_VARIABLE_FALLBACK || 'unknown';
+
+  assert.deepEqual(filled, ['agent_name', 'office_hours']);
+  assert.deepEqual(variables, { lead_name: '', lead_budget: '£1200', agent_name: fallback, office_hours: fallback });
+  assert.deepEqual(fillUnresolvedVariables(variables, referenced), []);
+});
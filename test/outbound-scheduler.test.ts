@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OutboundAudioScheduler } from '../src/audio/outbound-scheduler';
+
+const FRAME_MS = 20;
+
+function createScheduler(): { scheduler: OutboundAudioScheduler; marks: string[] } {
+  const marks: string[] = [];
+  const scheduler = new OutboundAudioScheduler({
+    sendMedia: () => {},
+    sendMark: name => marks.push(name)
+  }, FRAME_MS);
+  return { scheduler, marks };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('clearing mid-utterance reports how much was heard', () => {
+  const { scheduler } = createScheduler();
+  scheduler.enqueue(Buffer.alloc(160 * 10, 0xff));
+
+  const position = scheduler.clear();
+  assert.equal(position.sentMs, FRAME_MS);
+  assert.ok(position.playedMs < position.sentMs);
+});
+
+test('an utterance whose mark came back is no longer current', async () => {
+  const { scheduler, marks } = createScheduler();
+  scheduler.enqueue(Buffer.alloc(160 * 3, 0xff));
+
+  // Three frames play out, then the closing mark is sent
+  await sleep(3 * FRAME_MS + 60);
+  assert.equal(marks.length, 1);
+  assert.ok(scheduler.onMark(marks[0]));
+
+  assert.deepEqual(scheduler.clear(), { playedMs: 0, sentMs: 0 });
+});
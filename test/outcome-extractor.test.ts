@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractCallOutcome, OutcomeExtractionInput } from '../src/outcome-extractor';
+import { ContractLength } from '../src/types/contract';
+
+type Turn = OutcomeExtractionInput['turns'][number];
+
+const agent = (text: string): Turn => ({ speaker: 'agent', text });
+const caller = (text: string): Turn => ({ speaker: 'user', text });
+
+function extract(turns: Turn[], overrides: Partial<OutcomeExtractionInput> = {}) {
+  return extractCallOutcome({ turns, toolCalls: [], dtmfInputs: [], endReason: 'agent_ended_call', ...overrides });
+}
+
+test('a successful book_viewing tool call means a viewing was booked', () => {
+  const result = extract([caller("I'm not interested in Tuesday")], {
+    toolCalls: [{ name: 'book_viewing', parameters: { datetime: '2026-11-03T10:00:00Z' }, isError: false }]
+  });
+  assert.equal(result.outcome, 'viewing_booked');
+});
+
+test('a failed book_viewing tool call books nothing', () => {
+  const result = extract([caller('Sounds good')], {
+    toolCalls: [{ name: 'book_viewing', parameters: {}, isError: true }]
+  });
+  assert.equal(result.outcome, 'incomplete');
+});
+
+test('a clear refusal at the end of the call is not_interested', () => {
+  const result = extract([agent('Would you like to book a viewing?'), caller("No thanks, I'm not interested anymore.")]);
+  assert.equal(result.outcome, 'not_interested');
+});
+
+test('a refusal narrowed to one option is not a refusal of the enquiry', () => {
+  const result = extract([
+    agent("There's a two-bed on Mill Road."),
+    caller("I'm not interested in the two-bed, what else is there?")
+  ]);
+  assert.equal(result.outcome, 'incomplete');
+});
+
+test('an early objection that was talked through does not decide the outcome', () => {
+  const result = extract([
+    caller('Not interested, sorry'),
+    agent("It's got a garden and it's within your budget."),
+    caller('Oh, a garden?'),
+    agent('Yes, a south-facing one.'),
+    caller('Right.'),
+    agent('Would you like a viewing?'),
+    caller('Let me think.'),
+    agent('Of course.'),
+    caller('Okay.')
+  ]);
+  assert.equal(result.outcome, 'incomplete');
+});
+
+test('wrong number wins over other phrases', () => {
+  const result = extract([caller("Sorry, wrong number, I'm not interested")]);
+  assert.equal(result.outcome, 'wrong_number');
+});
+
+test('asking to be called back is callback_requested', () => {
+  const result = extract([caller("It's not a good time, could you call me back tomorrow?")]);
+  assert.equal(result.outcome, 'callback_requested');
+});
+
+test('the opt-out key and the human key decide the outcome when the transcript does not', () => {
+  assert.equal(extract([], { endReason: 'caller_opted_out' }).outcome, 'not_interested');
+  assert.equal(extract([], { dtmfInputs: [{ digit: '0', action: 'human', offsetMs: 1000 }] }).outcome, 'callback_requested');
+});
+
+test('fields come from answers to the agent\'s questions', () => {
+  const { fields } = extract([
+    agent("What's your budget per month?"),
+    caller('About £1,200'),
+    agent('And are you working at the moment?'),
+    caller("Yes, I'm employed full time"),
+    agent('How long a tenancy are you after?'),
+    caller('Twelve months ideally')
+  ]);
+  assert.equal(fields.budget?.value, 1200);
+  assert.equal(fields.occupation?.value, 'employed');
+  assert.equal(fields.contractLength?.value, ContractLength.TWELVE_MONTHS);
+});
+
+test('a "yes" confirms the value the agent read back', () => {
+  const { fields } = extract([agent('So that\'s a yearly salary of 35k, is that right?'), caller('Yes, that\'s right')]);
+  assert.equal(fields.yearlyWage?.value, 35000);
+});
+
+test('update_lead_field tool values override the transcript', () => {
+  const { fields } = extract([agent("What's your budget?"), caller('1000 a month')], {
+    toolCalls: [{ name: 'update_lead_field', parameters: { field: 'budget', value: 1100 }, isError: false }]
+  });
+  assert.deepEqual(fields.budget, { value: 1100, source: 'tool', evidence: 'update_lead_field tool call' });
+});
+
+test('durations need whole words', () => {
+  const { fields } = extract([agent('How long would the contract be?'), caller("Depends, I'd pay extra months upfront")]);
+  assert.equal(fields.contractLength, undefined);
+});
+
+test('move-in dates are read as the next such date', () => {
+  const { fields } = extract([agent('When are you looking to move in?'), caller('The 15th of March')]);
+  assert.match(String(fields.moveInDate?.value), /^\d{4}-03-15$/);
+});
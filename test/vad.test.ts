@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AdaptiveEnergyVad } from '../src/audio/vad';
+
+const FRAME = 160;  // 20ms at 8kHz
+
+function tone(amplitude: number, frequency: number = 300): Int16Array {
+  return Int16Array.from({ length: FRAME }, (_, i) => Math.round(amplitude * Math.sin(2 * Math.PI * frequency * i / 8000)));
+}
+
+function feed(vad: AdaptiveEnergyVad, frame: Int16Array, count: number): boolean[] {
+  return Array.from({ length: count }, () => vad.isSpeech(frame));
+}
+
+test('a digitally silent line keeps the noise floor at -65dBFS', () => {
+  const vad = new AdaptiveEnergyVad({ calibrationMs: 200 });
+  feed(vad, new Int16Array(FRAME), 100);
+  assert.equal(vad.noiseFloor, -65);
+});
+
+test('faint line noise after silence is not taken for speech', () => {
+  const vad = new AdaptiveEnergyVad({ calibrationMs: 200 });
+  feed(vad, new Int16Array(FRAME), 100);
+  // About -60dBFS: above a floor of -90, below one of -65 plus the margin
+  assert.ok(feed(vad, tone(45), 10).every(isSpeech => !isSpeech));
+});
+
+test('speech-level audio after silence is detected', () => {
+  const vad = new AdaptiveEnergyVad({ calibrationMs: 200 });
+  feed(vad, new Int16Array(FRAME), 100);
+  assert.ok(feed(vad, tone(3000), 5).every(isSpeech => isSpeech));
+});